@@ -0,0 +1,140 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { describe, expect, it } from "vitest";
+import {
+	diffSnapshots,
+	hashFile,
+	isBashTool,
+	mergeAttributedChanges,
+	takeSnapshot,
+} from "../attribution.js";
+import { findLastEditIndex, type ToolEvent } from "../transcript.js";
+import { gitBackend } from "../vcs/git.js";
+
+describe("takeSnapshot", () => {
+	it("hashes every path the backend reports, including rename sources", async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+		try {
+			fs.writeFileSync(path.join(root, "b.ts"), "b");
+			const backend = {
+				...gitBackend,
+				getChanges: async () => [
+					{ path: "b.ts", kind: "renamed" as const, originalPath: "a.ts" },
+				],
+			};
+			const $ = {} as PluginInput["$"];
+
+			const snapshot = await takeSnapshot($, { backend, root });
+
+			expect(snapshot).toEqual(
+				new Map([
+					[path.join(root, "b.ts"), hashFile(path.join(root, "b.ts"))],
+					[path.join(root, "a.ts"), "deleted"],
+				]),
+			);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it("returns null when the backend fails", async () => {
+		const backend = {
+			...gitBackend,
+			getChanges: async () => {
+				throw new Error("not a repository");
+			},
+		};
+		expect(
+			await takeSnapshot({} as PluginInput["$"], { backend, root: "/r" }),
+		).toBeNull();
+	});
+});
+
+describe("diffSnapshots", () => {
+	it("reports added, reverted and modified files", () => {
+		const before = new Map([
+			["/r/same.ts", "1"],
+			["/r/modified.ts", "2"],
+			["/r/reverted.ts", "3"],
+		]);
+		const after = new Map([
+			["/r/same.ts", "1"],
+			["/r/modified.ts", "changed"],
+			["/r/reverted.ts", "clean"],
+			["/r/new.ts", "4"],
+		]);
+		expect(diffSnapshots(before, after)).toEqual([
+			"/r/modified.ts",
+			"/r/new.ts",
+			"/r/reverted.ts",
+		]);
+	});
+
+	it("does not report files that were committed unchanged", async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+		try {
+			fs.writeFileSync(path.join(root, "a.ts"), "a");
+			fs.writeFileSync(path.join(root, "b.ts"), "b");
+			// a.ts and b.ts are dirty, then `git commit -am wip` leaves nothing dirty
+			let dirty = ["a.ts", "b.ts"];
+			const backend = {
+				...gitBackend,
+				getChanges: async () =>
+					dirty.map((p) => ({ path: p, kind: "modified" as const })),
+			};
+			const $ = {} as PluginInput["$"];
+			const vcs = { backend, root };
+
+			const before = await takeSnapshot($, vcs);
+			dirty = [];
+			fs.writeFileSync(path.join(root, "b.ts"), "reverted");
+			const after = await takeSnapshot($, vcs, before?.keys());
+
+			expect(diffSnapshots(before ?? new Map(), after ?? new Map())).toEqual([
+				path.join(root, "b.ts"),
+			]);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("mergeAttributedChanges", () => {
+	it("inserts an edit after the Bash call that changed files", () => {
+		const events: ToolEvent[] = [
+			{
+				toolName: "Bash",
+				command: "sed -i s/a/b/ a.ts",
+				index: 0,
+				callID: "c1",
+			},
+			{ toolName: "Bash", command: "pnpm test", index: 1, callID: "c2" },
+		];
+
+		const merged = mergeAttributedChanges(
+			events,
+			new Map([["c1", ["/r/a.ts"]]]),
+		);
+
+		expect(merged.map((e) => [e.toolName, e.index])).toEqual([
+			["Bash", 0],
+			["Edit", 1],
+			["Bash", 2],
+		]);
+		expect(merged[1]).toMatchObject({
+			filePaths: ["/r/a.ts"],
+			attributedTo: "Bash",
+		});
+		expect(findLastEditIndex(merged, (p) => p.endsWith(".ts"))).toBe(1);
+	});
+});
+
+describe("isBashTool", () => {
+	it("recognizes bash tool names", () => {
+		expect(isBashTool("Bash")).toBe(true);
+		expect(isBashTool("mcp_bash")).toBe(true);
+		expect(isBashTool("edit")).toBe(false);
+	});
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { scopeToBaseline } from "../vcs/baseline.js";
+
+describe("scopeToBaseline", () => {
+	const baseline = {
+		vcs: "git" as const,
+		root: "/repo",
+		revision: "abc",
+		dirty: new Map([
+			["untouched.ts", "1"],
+			["edited.ts", "2"],
+			["reverted.ts", "3"],
+			["committed.ts", "4"],
+		]),
+	};
+
+	it("keeps only files changed since the baseline", () => {
+		const changes = [
+			{ path: "untouched.ts", kind: "modified" as const },
+			{ path: "edited.ts", kind: "modified" as const },
+			{ path: "new.ts", kind: "untracked" as const },
+		];
+		const current = new Map([
+			["untouched.ts", "1"],
+			["edited.ts", "changed"],
+			["new.ts", "5"],
+			["reverted.ts", "head"],
+			["committed.ts", "head"],
+		]);
+		const committed = [
+			{ path: "committed.ts", kind: "modified" as const },
+			{ path: "moved.ts", kind: "renamed" as const, originalPath: "old.ts" },
+		];
+
+		expect(scopeToBaseline(changes, committed, baseline, current)).toEqual([
+			{ path: "edited.ts", kind: "modified" },
+			{ path: "new.ts", kind: "untracked" },
+			{ path: "committed.ts", kind: "modified" },
+			{ path: "moved.ts", kind: "renamed", originalPath: "old.ts" },
+			{ path: "reverted.ts", kind: "modified" },
+		]);
+	});
+});
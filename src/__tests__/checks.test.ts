@@ -2,8 +2,33 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { runChecks } from "../checks/runner.js";
-import { findNearestConfig, loadConfig } from "../config.js";
+import {
+	autoRunMissingCommands,
+	mergeAutoRuns,
+	runCommand,
+	updateAutoRunRecords,
+} from "../checks/autorun.js";
+import { evaluateCondition } from "../checks/conditions.js";
+import { decideReprompt, type RetryState } from "../checks/loop.js";
+import {
+	buildReport,
+	resolveReportPath,
+	writeReport,
+} from "../checks/report.js";
+import type { CheckFailure } from "../checks/result.js";
+import {
+	evaluateChecks,
+	formatFailures,
+	formatWarnings,
+	runChecks,
+} from "../checks/runner.js";
+import {
+	findNearestConfig,
+	getEffectiveChecks,
+	loadConfig,
+	loadSessionConfig,
+} from "../config.js";
+import { parseCommand } from "../shell.js";
 import type { ToolEvent } from "../transcript.js";
 
 describe("loadConfig", () => {
@@ -36,7 +61,7 @@ checks:
 		expect(config.checks).toHaveLength(1);
 		expect(config.checks[0].name).toBe("biome");
 		expect(config.checks[0].when.paths_changed).toBe("**/*.ts");
-		expect(config.checks[0].then.ensure_commands).toEqual(["biome check"]);
+		expect(config.checks[0].then).toEqual({ ensure_commands: ["biome check"] });
 	});
 
 	it("parses a valid config with ensure_changed", () => {
@@ -58,16 +83,64 @@ checks:
 		const config = loadConfig(configPath);
 		expect(config.checks).toHaveLength(1);
 		expect(config.checks[0].when.path_exists).toBe("package.nix");
-		expect(config.checks[0].then.ensure_changed).toEqual(["version.toml"]);
+		expect(config.checks[0].then).toEqual({ ensure_changed: ["version.toml"] });
 	});
 
 	it("throws on config without presets or checks", () => {
 		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
-		fs.writeFileSync(configPath, "name: test");
+		fs.writeFileSync(configPath, "track_bash_changes: true");
 
 		expect(() => loadConfig(configPath)).toThrow("no checks defined");
 	});
 
+	it("rejects unknown keys with their line and column", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(
+			configPath,
+			`checks:
+  - name: tests
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_comands:
+        - pnpm test
+`,
+		);
+
+		expect(() => loadConfig(configPath)).toThrow(
+			`${configPath}:6:7: checks[0].then: unknown key 'ensure_comands' (did you mean 'ensure_commands'?)`,
+		);
+	});
+
+	it("rejects values of the wrong type", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(
+			configPath,
+			`checks:
+  - name: tests
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      auto_run: "yes"
+      ensure_commands:
+        - pnpm test
+        - exact: 42
+`,
+		);
+
+		const error = (() => {
+			try {
+				loadConfig(configPath);
+			} catch (e) {
+				return (e as Error).message;
+			}
+		})();
+		expect(error?.split("\n")).toEqual([
+			`Invalid config at ${configPath}:6:17: checks[0].then.auto_run: expected boolean, got string`,
+			`Invalid config at ${configPath}:9:18: checks[0].then.ensure_commands[1].exact: expected string, got number`,
+		]);
+	});
+
 	it("throws on missing name", () => {
 		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
 		fs.writeFileSync(
@@ -85,24 +158,113 @@ checks:
 		expect(() => loadConfig(configPath)).toThrow("missing 'name'");
 	});
 
-	it("throws when both ensure_commands and ensure_changed are present", () => {
+	it("accepts several requirements in one check", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(
+			configPath,
+			`
+checks:
+  - name: release
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      - ensure_commands:
+          - test
+        ensure_changed:
+          - file.txt
+      - ensure_tool_used:
+          - tool: read
+`,
+		);
+
+		expect(loadConfig(configPath).checks[0].then).toEqual([
+			{ ensure_commands: ["test"], ensure_changed: ["file.txt"] },
+			{ ensure_tool_used: [{ tool: "read" }] },
+		]);
+	});
+
+	it("throws when a then entry has no requirement", () => {
 		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
 		fs.writeFileSync(
 			configPath,
 			`
 checks:
   - name: bad
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      require_success: false
+`,
+		);
+
+		expect(() => loadConfig(configPath)).toThrow(
+			"check 'bad' must have 'then.ensure_commands'",
+		);
+	});
+
+	it("parses pattern entries in ensure_commands", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(
+			configPath,
+			`
+checks:
+  - name: tests
     when:
       paths_changed: "**/*.ts"
     then:
       ensure_commands:
-        - test
-      ensure_changed:
-        - file.txt
+        - pnpm lint
+        - regex: "^pnpm (run )?test$"
+        - any_of:
+            - exact: pnpm typecheck
+            - tsc --noEmit
+`,
+		);
+
+		const config = loadConfig(configPath);
+		expect(config.checks[0].then).toEqual({
+			ensure_commands: [
+				"pnpm lint",
+				{ regex: "^pnpm (run )?test$" },
+				{ any_of: [{ exact: "pnpm typecheck" }, "tsc --noEmit"] },
+			],
+		});
+	});
+
+	it("throws when every paths_changed pattern is negated", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(
+			configPath,
+			`
+checks:
+  - name: tests
+    when:
+      paths_changed: ["!**/*.md"]
+    then:
+      ensure_commands:
+        - pnpm test
+`,
+		);
+
+		expect(() => loadConfig(configPath)).toThrow("is not negated with '!'");
+	});
+
+	it("throws on invalid ensure_commands patterns", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(
+			configPath,
+			`
+checks:
+  - name: tests
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - regex: "pnpm (test"
 `,
 		);
 
-		expect(() => loadConfig(configPath)).toThrow("cannot have both");
+		expect(() => loadConfig(configPath)).toThrow("bad regex");
 	});
 
 	it("throws on empty config (no presets or checks)", () => {
@@ -152,6 +314,72 @@ presets:
 		}
 	});
 
+	it("validates loop protection settings", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		const write = (maxRetries: string) =>
+			fs.writeFileSync(
+				configPath,
+				`loop_protection:
+  max_retries: ${maxRetries}
+  toast: false
+checks:
+  - name: tests
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm test
+`,
+			);
+
+		write("3");
+		expect(loadConfig(configPath).loop_protection).toEqual({
+			max_retries: 3,
+			toast: false,
+		});
+		write("1.5");
+		expect(() => loadConfig(configPath)).toThrow(
+			"loop_protection.max_retries: expected integer, got number",
+		);
+		write("-1");
+		expect(() => loadConfig(configPath)).toThrow("must be at least 0");
+	});
+
+	it("validates preset files", () => {
+		const xdgConfigHome = path.join(tmpDir, "xdg-config");
+		const presetDir = path.join(xdgConfigHome, "rufio", "presets");
+		fs.mkdirSync(presetDir, { recursive: true });
+		const presetPath = path.join(presetDir, "pnpm.yaml");
+		fs.writeFileSync(
+			presetPath,
+			`checks:
+  - name: pnpm-test
+    when:
+      paths_changed: "**/*.ts"
+    than:
+      ensure_commands:
+        - pnpm test
+`,
+		);
+
+		const originalXdg = process.env.XDG_CONFIG_HOME;
+		process.env.XDG_CONFIG_HOME = xdgConfigHome;
+
+		try {
+			const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+			fs.writeFileSync(configPath, "presets:\n  - pnpm\n");
+
+			expect(() => loadConfig(configPath)).toThrow(
+				`${presetPath}:2:5: checks[0]: missing 'then'`,
+			);
+			expect(() => loadConfig(configPath)).toThrow(
+				`${presetPath}:5:5: checks[0]: unknown key 'than' (did you mean 'then'?)`,
+			);
+		} finally {
+			process.env.XDG_CONFIG_HOME = originalXdg;
+		}
+	});
+
 	it("throws when preset not found in XDG directory", () => {
 		// Set up empty XDG config directory
 		const xdgConfigHome = path.join(tmpDir, "xdg-config");
@@ -182,6 +410,221 @@ presets:
 	});
 });
 
+describe("preset composition", () => {
+	let tmpDir: string;
+	let originalXdg: string | undefined;
+
+	/** Writes a preset file into the XDG preset directory */
+	function writePreset(name: string, content: string) {
+		const presetDir = path.join(tmpDir, "xdg-config", "rufio", "presets");
+		fs.mkdirSync(presetDir, { recursive: true });
+		fs.writeFileSync(path.join(presetDir, `${name}.yaml`), content);
+	}
+
+	/** Writes the project config and loads it */
+	function load(content: string) {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(configPath, content);
+		return loadConfig(configPath);
+	}
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+		originalXdg = process.env.XDG_CONFIG_HOME;
+		process.env.XDG_CONFIG_HOME = path.join(tmpDir, "xdg-config");
+
+		writePreset(
+			"node",
+			`
+presets:
+  - name: lint
+    with:
+      lint_cmd: "\${runner} lint"
+params:
+  runner: npm
+  test_cmd: "\${runner} test"
+checks:
+  - name: node-test
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - "\${test_cmd}"
+        - "echo $\${HOME}"
+`,
+		);
+		writePreset(
+			"lint",
+			`
+checks:
+  - name: lint
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - "\${lint_cmd}"
+`,
+		);
+	});
+
+	afterEach(() => {
+		process.env.XDG_CONFIG_HOME = originalXdg;
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("includes nested presets and interpolates parameters", () => {
+		const config = load(`
+presets:
+  - name: node
+    with:
+      test_cmd: pnpm test:unit
+`);
+
+		expect(config.checks.map((c) => [c.name, c.then])).toEqual([
+			["lint", { ensure_commands: ["npm lint"] }],
+			["node-test", { ensure_commands: ["pnpm test:unit", `echo \${HOME}`] }],
+		]);
+	});
+
+	it("overrides and disables preset checks by name", () => {
+		const config = load(`
+presets:
+  - node
+disable_checks:
+  - lint
+checks:
+  - name: node-test
+    severity: warn
+    when:
+      paths_changed: "src/**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm test
+`);
+
+		expect(config.checks).toHaveLength(1);
+		expect(config.checks[0]).toMatchObject({
+			name: "node-test",
+			severity: "warn",
+		});
+		expect(() => load("presets: [node]\ndisable_checks: [nope]\n")).toThrow(
+			"disable_checks: no preset check named 'nope'",
+		);
+	});
+
+	it("detects preset cycles", () => {
+		writePreset("a", "presets: [b]\n");
+		writePreset("b", "presets: [a]\n");
+
+		expect(() => load("presets: [a]\n")).toThrow("preset cycle a -> b -> a");
+	});
+
+	it("requires a value for every parameter", () => {
+		writePreset(
+			"cargo",
+			`
+checks:
+  - name: cargo
+    when:
+      paths_changed: "**/*.rs"
+    then:
+      ensure_commands:
+        - "cargo \${profile}"
+`,
+		);
+
+		expect(() => load("presets: [cargo]\n")).toThrow(
+			"no value for parameter 'profile'",
+		);
+		expect(
+			load("presets:\n  - name: cargo\n    with: { profile: test }\n").checks[0]
+				.then,
+		).toEqual({ ensure_commands: ["cargo test"] });
+	});
+
+	it("looks up presets repo-locally, in XDG directories, then built in", () => {
+		const originalDirs = process.env.XDG_CONFIG_DIRS;
+		process.env.XDG_CONFIG_DIRS = path.join(tmpDir, "xdg-dirs");
+		try {
+			const check = (name: string, command: string) =>
+				`checks:\n  - name: ${name}\n    when: { paths_changed: "**/*.ts" }\n    then: { ensure_commands: [${command}] }\n`;
+			fs.mkdirSync(path.join(tmpDir, ".git"));
+			fs.mkdirSync(path.join(tmpDir, ".rufio", "presets"), { recursive: true });
+			fs.writeFileSync(
+				path.join(tmpDir, ".rufio", "presets", "node.yaml"),
+				check("repo-node", "npm test"),
+			);
+			const systemDir = path.join(tmpDir, "xdg-dirs", "rufio", "presets");
+			fs.mkdirSync(systemDir, { recursive: true });
+			fs.writeFileSync(
+				path.join(systemDir, "site.yaml"),
+				check("site", "make check"),
+			);
+
+			// The repo-local preset wins over XDG, even for a config in a subdirectory
+			const subDir = path.join(tmpDir, "packages", "app");
+			fs.mkdirSync(subDir, { recursive: true });
+			fs.writeFileSync(
+				path.join(subDir, "rufio-hooks.yaml"),
+				"presets: [node, site, cargo]\n",
+			);
+			expect(
+				loadConfig(path.join(subDir, "rufio-hooks.yaml")).checks.map(
+					(c) => c.name,
+				),
+			).toEqual([
+				"repo-node",
+				"site",
+				"cargo-fmt",
+				"cargo-clippy",
+				"cargo-test",
+			]);
+		} finally {
+			process.env.XDG_CONFIG_DIRS = originalDirs;
+		}
+	});
+
+	it("passes parameters to built-in presets", () => {
+		const config = load(`
+presets:
+  - name: pnpm
+    with: { test_cmd: "pnpm test:unit" }
+disable_checks: [pnpm-lint]
+`);
+
+		expect(config.checks.map((c) => [c.name, c.then])).toEqual([
+			["pnpm-typecheck", { ensure_commands: ["pnpm typecheck"] }],
+			["pnpm-test", { ensure_commands: ["pnpm test:unit"] }],
+		]);
+	});
+
+	it("resolves presets by path relative to the referencing file", () => {
+		fs.mkdirSync(path.join(tmpDir, "shared", "more"), { recursive: true });
+		fs.writeFileSync(
+			path.join(tmpDir, "shared", "web.yaml"),
+			"presets: [./more/format.yaml]\n",
+		);
+		fs.writeFileSync(
+			path.join(tmpDir, "shared", "more", "format.yaml"),
+			`
+checks:
+  - name: format
+    when:
+      paths_changed: "**/*.css"
+    then:
+      ensure_commands: [prettier]
+`,
+		);
+
+		expect(
+			load("presets: [./shared/web.yaml]\n").checks.map((c) => c.name),
+		).toEqual(["format"]);
+		expect(() => load("presets: [./missing.yaml]\n")).toThrow(
+			`preset './missing.yaml' not found (searched ${path.join(tmpDir, "missing.yaml")})`,
+		);
+	});
+});
+
 describe("findNearestConfig", () => {
 	let tmpDir: string;
 
@@ -313,63 +756,183 @@ checks:
 
 		expect(result).toBeNull();
 	});
-});
-
-describe("runChecks", () => {
-	let tmpDir: string;
-
-	beforeEach(() => {
-		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
-	});
-
-	afterEach(() => {
-		fs.rmSync(tmpDir, { recursive: true, force: true });
-	});
-
-	it("returns null when no config exists", () => {
-		const result = runChecks(["file.ts"], [], tmpDir);
-		expect(result).toBeNull();
-	});
 
-	it("returns null when no files match the glob", () => {
+	it("inherits the checks of a parent config", () => {
 		fs.writeFileSync(
 			path.join(tmpDir, "rufio-hooks.yaml"),
 			`
 checks:
-  - name: biome
+  - name: lint
     when:
       paths_changed: "**/*.ts"
     then:
-      ensure_commands:
-        - biome check
+      ensure_commands: [pnpm lint]
+  - name: test
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands: [pnpm test]
+  - name: docs
+    when:
+      paths_changed: "**/*.md"
+    then:
+      ensure_commands: [meow fmt]
 `,
 		);
-
-		const result = runChecks(["file.md"], [], tmpDir);
-		expect(result).toBeNull();
-	});
-
-	it("returns null when matching files were not edited in session", () => {
+		const pkgDir = path.join(tmpDir, "packages", "foo");
+		fs.mkdirSync(pkgDir, { recursive: true });
 		fs.writeFileSync(
-			path.join(tmpDir, "rufio-hooks.yaml"),
+			path.join(pkgDir, "rufio-hooks.yaml"),
 			`
+inherit: true
+disable_checks: [docs]
 checks:
-  - name: biome
+  - name: test
     when:
       paths_changed: "**/*.ts"
     then:
-      ensure_commands:
-        - biome check
+      ensure_commands: [pnpm test --filter foo]
 `,
 		);
 
-		// Files are dirty in git but no edits in transcript
-		const events: ToolEvent[] = [{ toolName: "Bash", command: "ls", index: 0 }];
-		const result = runChecks(["file.ts"], events, tmpDir);
-		expect(result).toBeNull();
+		const loaded = findNearestConfig(path.join(pkgDir, "index.ts"), tmpDir);
+		expect(
+			loaded &&
+				getEffectiveChecks(loaded).map(({ check, configDir }) => [
+					check.name,
+					configDir,
+				]),
+		).toEqual([
+			["lint", tmpDir],
+			["test", pkgDir],
+		]);
 	});
 
-	it("returns error when commands not run after edit", () => {
+	it("inherits from the config named by extends", () => {
+		const check = (name: string) =>
+			`checks:\n  - name: ${name}\n    when: { paths_changed: "**/*.ts" }\n    then: { ensure_commands: [${name}] }\n`;
+		const sharedDir = path.join(tmpDir, "shared");
+		const pkgDir = path.join(tmpDir, "packages", "foo");
+		fs.mkdirSync(sharedDir);
+		fs.mkdirSync(pkgDir, { recursive: true });
+		fs.writeFileSync(path.join(sharedDir, "rufio-hooks.yaml"), check("shared"));
+		fs.writeFileSync(
+			path.join(pkgDir, "rufio-hooks.yaml"),
+			`extends: ../../shared\n${check("foo")}`,
+		);
+
+		const loaded = findNearestConfig(path.join(pkgDir, "index.ts"), tmpDir);
+		expect(loaded?.parent?.configPath).toBe(
+			path.join(sharedDir, "rufio-hooks.yaml"),
+		);
+
+		fs.writeFileSync(
+			path.join(sharedDir, "rufio-hooks.yaml"),
+			`extends: ../packages/foo/rufio-hooks.yaml\n${check("shared")}`,
+		);
+		expect(() =>
+			findNearestConfig(path.join(pkgDir, "index.ts"), tmpDir),
+		).toThrow("config inheritance cycle");
+	});
+
+	it("caches configs until the config or a preset changes", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		const presetPath = path.join(tmpDir, "shared.yaml");
+		fs.writeFileSync(configPath, "presets: [./shared.yaml]\n");
+		fs.writeFileSync(
+			presetPath,
+			`checks:\n  - name: a\n    when: { paths_changed: "**/*.ts" }\n    then: { ensure_commands: [a] }\n`,
+		);
+
+		const first = findNearestConfig(path.join(tmpDir, "a.ts"), tmpDir);
+		expect(findNearestConfig(path.join(tmpDir, "b.ts"), tmpDir)).toBe(first);
+
+		fs.writeFileSync(
+			presetPath,
+			`checks:\n  - name: renamed\n    when: { paths_changed: "**/*.ts" }\n    then: { ensure_commands: [a] }\n`,
+		);
+		const second = findNearestConfig(path.join(tmpDir, "a.ts"), tmpDir);
+		expect(second).not.toBe(first);
+		expect(second?.config.checks[0].name).toBe("renamed");
+	});
+
+	it("memoizes config errors and reports them per config", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`checks:\n  - name: root\n    when: { paths_changed: "**/*.ts" }\n    then: { ensure_commands: [root] }\n`,
+		);
+		const pkgDir = path.join(tmpDir, "packages", "foo");
+		fs.mkdirSync(pkgDir, { recursive: true });
+		fs.writeFileSync(path.join(pkgDir, "rufio-hooks.yaml"), "checks: 42\n");
+
+		const load = () => {
+			try {
+				findNearestConfig(path.join(pkgDir, "index.ts"), tmpDir);
+			} catch (e) {
+				return e;
+			}
+		};
+		const error = load();
+		expect(error).toBeInstanceOf(Error);
+		expect(load()).toBe(error);
+
+		const errors: [string, string[]][] = [];
+		const results = evaluateChecks(
+			["a.ts", "packages/foo/a.ts", "packages/foo/b.ts"],
+			[],
+			tmpDir,
+			{ onConfigError: (e, files) => errors.push([e.message, files]) },
+		);
+		expect(results.map((r) => r.checkName)).toEqual(["root"]);
+		expect(errors).toEqual([
+			[(error as Error).message, ["packages/foo/a.ts", "packages/foo/b.ts"]],
+		]);
+	});
+
+	it("requires a parent config to inherit from", () => {
+		fs.writeFileSync(path.join(tmpDir, "rufio-hooks.yaml"), "inherit: true\n");
+
+		expect(() => findNearestConfig(path.join(tmpDir, "a.ts"), tmpDir)).toThrow(
+			"inherit: no rufio-hooks.yaml in a parent directory",
+		);
+	});
+
+	it("loads the session config from above a subdirectory session", () => {
+		const session = path.join(tmpDir, "packages/foo");
+		fs.mkdirSync(session, { recursive: true });
+		fs.mkdirSync(path.join(tmpDir, ".git"));
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			"vcs: git\nguards:\n  - name: lock\n    deny_edits: pnpm-lock.yaml\n",
+		);
+
+		expect(loadSessionConfig(session)?.configPath).toBe(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+		);
+
+		fs.rmdirSync(path.join(tmpDir, ".git"));
+		fs.mkdirSync(path.join(tmpDir, "packages/.jj"));
+		expect(loadSessionConfig(session)).toBeNull();
+	});
+});
+
+describe("runChecks", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("returns null when no config exists", () => {
+		const result = runChecks(["file.ts"], [], tmpDir);
+		expect(result).toEqual([]);
+	});
+
+	it("returns null when no files match the glob", () => {
 		fs.writeFileSync(
 			path.join(tmpDir, "rufio-hooks.yaml"),
 			`
@@ -383,183 +946,1311 @@ checks:
 `,
 		);
 
-		const events: ToolEvent[] = [
-			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 0 },
-		];
-
-		const result = runChecks(["file.ts"], events, tmpDir);
-		expect(result).toContain("Check 'biome' failed");
-		expect(result).toContain("biome check");
+		const result = runChecks(["file.md"], [], tmpDir);
+		expect(result).toEqual([]);
 	});
 
-	it("returns null when all commands run after edit", () => {
+	it("supports multiple globs, negation and paths_ignored", () => {
 		fs.writeFileSync(
 			path.join(tmpDir, "rufio-hooks.yaml"),
 			`
 checks:
   - name: biome
     when:
-      paths_changed: "**/*.ts"
+      paths_changed:
+        - "src/**/*.ts"
+        - "src/**/*.tsx"
+        - "!**/*.generated.ts"
+      paths_ignored: "src/vendor/**"
     then:
       ensure_commands:
         - biome check
-        - pnpm test
 `,
 		);
 
+		const edit = (file: string): ToolEvent[] => [
+			{ toolName: "Edit", filePath: path.join(tmpDir, file), index: 0 },
+		];
+		const failing = (file: string) =>
+			runChecks([file], edit(file), tmpDir).map((f) => f.checkName);
+
+		expect(failing("src/app.tsx")).toEqual(["biome"]);
+		expect(failing("src/api.generated.ts")).toEqual([]);
+		expect(failing("src/vendor/lib.ts")).toEqual([]);
+
+		// Edits to excluded files do not count as the last matching edit
 		const events: ToolEvent[] = [
-			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 0 },
+			{ toolName: "Edit", filePath: path.join(tmpDir, "src/a.ts"), index: 0 },
 			{ toolName: "Bash", command: "biome check", index: 1 },
-			{ toolName: "Bash", command: "pnpm test", index: 2 },
+			{
+				toolName: "Edit",
+				filePath: path.join(tmpDir, "src/api.generated.ts"),
+				index: 2,
+			},
 		];
+		expect(
+			runChecks(["src/a.ts", "src/api.generated.ts"], events, tmpDir),
+		).toEqual([]);
+	});
 
-		const result = runChecks(["file.ts"], events, tmpDir);
-		expect(result).toBeNull();
+	it("filters matching files by change kind", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: removed-docs
+    when:
+      paths_changed: "docs/**"
+      change_kinds: [deleted, renamed]
+    then:
+      ensure_changed:
+        - docs/index.md
+`,
+		);
+		const events: ToolEvent[] = [
+			{ toolName: "Bash", command: "git mv docs/a.md docs/b.md", index: 0 },
+			{ toolName: "Edit", filePath: path.join(tmpDir, "docs/b.md"), index: 1 },
+		];
+
+		expect(runChecks(["docs/c.md"], events, tmpDir)).toEqual([]);
+		expect(
+			runChecks(
+				[
+					{ path: "docs/c.md", kind: "modified" },
+					{ path: "docs/b.md", kind: "renamed", originalPath: "docs/a.md" },
+				],
+				events,
+				tmpDir,
+			)[0]?.matchingFiles,
+		).toEqual(["docs/b.md", "docs/a.md"]);
 	});
 
-	it("requires commands to run AFTER the last edit", () => {
+	it("evaluates a list of requirements together", () => {
 		fs.writeFileSync(
 			path.join(tmpDir, "rufio-hooks.yaml"),
 			`
 checks:
-  - name: biome
+  - name: release
+    when:
+      paths_changed: "src/**"
+    then:
+      - ensure_commands:
+          - pnpm test
+        ensure_changed:
+          - version.toml
+      - ensure_not_changed:
+          - pnpm-lock.yaml
+      - ensure_file_contains:
+          - path: CHANGELOG.md
+            regex: "^## Unreleased"
+      - ensure_tool_used:
+          - tool: read
+            path: docs/design.md
+            before_edit: true
+`,
+		);
+		fs.writeFileSync(path.join(tmpDir, "CHANGELOG.md"), "# Changelog\n");
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "src/a.ts"), index: 0 },
+			{
+				toolName: "Read",
+				filePath: path.join(tmpDir, "docs/design.md"),
+				filePaths: [path.join(tmpDir, "docs/design.md")],
+				index: 1,
+			},
+			{
+				toolName: "Edit",
+				filePath: path.join(tmpDir, "pnpm-lock.yaml"),
+				index: 2,
+			},
+		];
+
+		const [failure] = runChecks(["src/a.ts"], events, tmpDir);
+
+		expect(failure.missingCommands).toEqual(["pnpm test"]);
+		expect(failure.missingChanges).toEqual(["version.toml"]);
+		expect(failure.forbiddenChanges).toEqual(["pnpm-lock.yaml"]);
+		expect(failure.missingContent).toEqual(["CHANGELOG.md (/^## Unreleased/)"]);
+		expect(failure.missingToolUses).toEqual([
+			"read docs/design.md (before editing)",
+		]);
+		expect(failure.message.split("\n")).toHaveLength(5);
+	});
+
+	it("passes a list of requirements once all hold", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: release
+    when:
+      paths_changed: "src/**"
+    then:
+      - ensure_not_changed:
+          - pnpm-lock.yaml
+      - ensure_file_contains:
+          - path: CHANGELOG.md
+            regex: "^## Unreleased"
+      - ensure_tool_used:
+          - tool: read
+            path: docs/*.md
+            before_edit: true
+`,
+		);
+		fs.writeFileSync(
+			path.join(tmpDir, "CHANGELOG.md"),
+			"# Changelog\n\n## Unreleased\n",
+		);
+		const events: ToolEvent[] = [
+			{
+				toolName: "Read",
+				filePaths: [path.join(tmpDir, "docs/design.md")],
+				index: 0,
+			},
+			{ toolName: "Edit", filePath: path.join(tmpDir, "src/a.ts"), index: 1 },
+			// Lockfile changed by a command, not edited directly
+			{
+				toolName: "Edit",
+				filePath: path.join(tmpDir, "pnpm-lock.yaml"),
+				index: 2,
+				attributedTo: "Bash",
+			},
+		];
+
+		expect(runChecks(["src/a.ts"], events, tmpDir)).toEqual([]);
+	});
+
+	it("records the severity of failing checks", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: strict
     when:
       paths_changed: "**/*.ts"
     then:
       ensure_commands:
         - biome check
+  - name: soft
+    severity: warn
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm test
 `,
 		);
 
 		const events: ToolEvent[] = [
-			{ toolName: "Bash", command: "biome check", index: 0 },
-			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 1 },
+			{ toolName: "Edit", filePath: path.join(tmpDir, "a.ts"), index: 0 },
 		];
+		const failures = runChecks(["a.ts"], events, tmpDir);
+		expect(failures.map((f) => [f.checkName, f.severity])).toEqual([
+			["strict", "block"],
+			["soft", "warn"],
+		]);
+	});
+
+	it("returns null when matching files were not edited in session", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: biome
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - biome check
+`,
+		);
 
+		// Files are dirty in git but no edits in transcript
+		const events: ToolEvent[] = [{ toolName: "Bash", command: "ls", index: 0 }];
 		const result = runChecks(["file.ts"], events, tmpDir);
-		expect(result).toContain("Check 'biome' failed");
+		expect(result).toEqual([]);
 	});
 
-	it("respects path_exists condition", () => {
+	it("returns error when commands not run after edit", () => {
 		fs.writeFileSync(
 			path.join(tmpDir, "rufio-hooks.yaml"),
 			`
 checks:
-  - name: version-bump
+  - name: biome
     when:
-      paths_changed: "**/*.rs"
-      path_exists: package.nix
+      paths_changed: "**/*.ts"
     then:
-      ensure_changed:
-        - version.toml
+      ensure_commands:
+        - biome check
 `,
 		);
 
-		// No package.nix exists, so check should not apply
 		const events: ToolEvent[] = [
-			{ toolName: "Edit", filePath: path.join(tmpDir, "main.rs"), index: 0 },
+			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 0 },
 		];
 
-		const result = runChecks(["main.rs"], events, tmpDir);
-		expect(result).toBeNull();
+		const result = runChecks(["file.ts"], events, tmpDir);
+		expect(result[0].message).toContain("Check 'biome' failed");
+		expect(result[0].message).toContain("biome check");
 	});
 
-	it("enforces ensure_changed when path_exists is satisfied", () => {
-		fs.writeFileSync(path.join(tmpDir, "package.nix"), "");
+	it("returns null when all commands run after edit", () => {
 		fs.writeFileSync(
 			path.join(tmpDir, "rufio-hooks.yaml"),
 			`
 checks:
-  - name: version-bump
+  - name: biome
     when:
-      paths_changed: "**/*.rs"
-      path_exists: package.nix
+      paths_changed: "**/*.ts"
     then:
-      ensure_changed:
-        - version.toml
+      ensure_commands:
+        - biome check
+        - pnpm test
 `,
 		);
 
 		const events: ToolEvent[] = [
-			{ toolName: "Edit", filePath: path.join(tmpDir, "main.rs"), index: 0 },
+			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 0 },
+			{ toolName: "Bash", command: "biome check", index: 1 },
+			{ toolName: "Bash", command: "pnpm test", index: 2 },
 		];
 
-		const result = runChecks(["main.rs"], events, tmpDir);
-		expect(result).toContain("Check 'version-bump' failed");
-		expect(result).toContain("version.toml");
+		const result = runChecks(["file.ts"], events, tmpDir);
+		expect(result).toEqual([]);
 	});
 
-	it("passes when ensure_changed file was edited", () => {
-		fs.writeFileSync(path.join(tmpDir, "package.nix"), "");
+	it("returns error when a command failed after edit", () => {
 		fs.writeFileSync(
 			path.join(tmpDir, "rufio-hooks.yaml"),
 			`
 checks:
-  - name: version-bump
+  - name: tests
     when:
-      paths_changed: "**/*.rs"
-      path_exists: package.nix
+      paths_changed: "**/*.ts"
     then:
-      ensure_changed:
-        - version.toml
+      ensure_commands:
+        - pnpm test
 `,
 		);
 
 		const events: ToolEvent[] = [
-			{ toolName: "Edit", filePath: path.join(tmpDir, "main.rs"), index: 0 },
-			{
-				toolName: "Edit",
-				filePath: path.join(tmpDir, "version.toml"),
-				index: 1,
-			},
+			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 0 },
+			{ toolName: "Bash", command: "pnpm test", index: 1, exitCode: 1 },
 		];
 
-		const result = runChecks(["main.rs", "version.toml"], events, tmpDir);
-		expect(result).toBeNull();
+		const result = runChecks(["file.ts"], events, tmpDir);
+		expect(result[0].message).toContain("Check 'tests' failed");
+		expect(result[0].message).toContain("failed after editing");
+		expect(result[0].message).toContain("pnpm test (exit code 1)");
+		expect(result[0].failedCommands).toEqual(["pnpm test (exit code 1)"]);
+		expect(result[0].message).not.toContain("must run after editing");
 	});
 
-	it("handles nested configs correctly", () => {
-		// Root config for markdown
+	it("matches regex patterns per command segment", () => {
 		fs.writeFileSync(
 			path.join(tmpDir, "rufio-hooks.yaml"),
 			`
 checks:
-  - name: meow
+  - name: tests
     when:
-      paths_changed: "**/*.md"
+      paths_changed: "**/*.ts"
     then:
       ensure_commands:
-        - meow fmt
+        - regex: "^pnpm (run )?test$"
 `,
 		);
 
-		// Nested config for TypeScript
+		const edit: ToolEvent = {
+			toolName: "Edit",
+			filePath: path.join(tmpDir, "file.ts"),
+			index: 0,
+		};
+
+		const [failure] = runChecks(
+			["file.ts"],
+			[edit, { toolName: "Bash", command: "echo pnpm test", index: 1 }],
+			tmpDir,
+		);
+		expect(failure.missingCommands).toEqual(["/^pnpm (run )?test$/"]);
+
+		expect(
+			runChecks(
+				["file.ts"],
+				[edit, { toolName: "Bash", command: "cd pkg && pnpm test", index: 1 }],
+				tmpDir,
+			),
+		).toEqual([]);
+	});
+
+	it("requires commands to run in or above the config dir with require_cwd", () => {
 		const pkgDir = path.join(tmpDir, "packages", "foo");
 		fs.mkdirSync(pkgDir, { recursive: true });
 		fs.writeFileSync(
 			path.join(pkgDir, "rufio-hooks.yaml"),
 			`
 checks:
-  - name: biome
+  - name: tests
     when:
       paths_changed: "**/*.ts"
     then:
       ensure_commands:
-        - biome check
+        - pnpm test
+      require_cwd: true
 `,
 		);
 
-		// Edit a TS file in the nested package
-		const events: ToolEvent[] = [
-			{
-				toolName: "Edit",
-				filePath: path.join(pkgDir, "src", "index.ts"),
-				index: 0,
-			},
-		];
+		const edit: ToolEvent = {
+			toolName: "Edit",
+			filePath: path.join(pkgDir, "index.ts"),
+			index: 0,
+		};
+		const bash = (command: string): ToolEvent => ({
+			toolName: "Bash",
+			command,
+			index: 1,
+			invocations: parseCommand(command, tmpDir),
+		});
+		const files = ["packages/foo/index.ts"];
+
+		const [failure] = runChecks(
+			files,
+			[edit, bash("cd packages/bar && pnpm test")],
+			tmpDir,
+		);
+		expect(failure.message).toContain(`in ${pkgDir} (or a parent directory)`);
 
-		const result = runChecks(["packages/foo/src/index.ts"], events, tmpDir);
-		expect(result).toContain("Check 'biome' failed");
-		expect(result).not.toContain("meow");
+		expect(
+			runChecks(files, [edit, bash("pnpm -C packages/foo test")], tmpDir),
+		).toEqual([]);
+		expect(runChecks(files, [edit, bash("pnpm test")], tmpDir)).toEqual([]);
+	});
+
+	it("uses the most recent run of a command", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: tests
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm test
+`,
+		);
+
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 0 },
+			{ toolName: "Bash", command: "pnpm test", index: 1, exitCode: 1 },
+			{ toolName: "Bash", command: "pnpm test", index: 2, exitCode: 0 },
+		];
+
+		expect(runChecks(["file.ts"], events, tmpDir)).toEqual([]);
+	});
+
+	it("allows failed commands when require_success is false", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: tests
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm test
+      require_success: false
+`,
+		);
+
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 0 },
+			{ toolName: "Bash", command: "pnpm test", index: 1, status: "running" },
+		];
+
+		expect(runChecks(["file.ts"], events, tmpDir)).toEqual([]);
+	});
+
+	it("requires commands to run AFTER the last edit", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: biome
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - biome check
+`,
+		);
+
+		const events: ToolEvent[] = [
+			{ toolName: "Bash", command: "biome check", index: 0 },
+			{ toolName: "Edit", filePath: path.join(tmpDir, "file.ts"), index: 1 },
+		];
+
+		const result = runChecks(["file.ts"], events, tmpDir);
+		expect(result[0].message).toContain("Check 'biome' failed");
+	});
+
+	it("respects path_exists condition", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: version-bump
+    when:
+      paths_changed: "**/*.rs"
+      path_exists: package.nix
+    then:
+      ensure_changed:
+        - version.toml
+`,
+		);
+
+		// No package.nix exists, so check should not apply
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "main.rs"), index: 0 },
+		];
+
+		const result = runChecks(["main.rs"], events, tmpDir);
+		expect(result).toEqual([]);
+	});
+
+	it("enforces ensure_changed when path_exists is satisfied", () => {
+		fs.writeFileSync(path.join(tmpDir, "package.nix"), "");
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: version-bump
+    when:
+      paths_changed: "**/*.rs"
+      path_exists: package.nix
+    then:
+      ensure_changed:
+        - version.toml
+`,
+		);
+
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "main.rs"), index: 0 },
+		];
+
+		const result = runChecks(["main.rs"], events, tmpDir);
+		expect(result[0].message).toContain("Check 'version-bump' failed");
+		expect(result[0].message).toContain("version.toml");
+		expect(result[0].missingChanges).toEqual(["version.toml"]);
+	});
+
+	it("passes when ensure_changed file was edited", () => {
+		fs.writeFileSync(path.join(tmpDir, "package.nix"), "");
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: version-bump
+    when:
+      paths_changed: "**/*.rs"
+      path_exists: package.nix
+    then:
+      ensure_changed:
+        - version.toml
+`,
+		);
+
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "main.rs"), index: 0 },
+			{
+				toolName: "Edit",
+				filePath: path.join(tmpDir, "version.toml"),
+				index: 1,
+			},
+		];
+
+		const result = runChecks(["main.rs", "version.toml"], events, tmpDir);
+		expect(result).toEqual([]);
+	});
+
+	it("handles nested configs correctly", () => {
+		// Root config for markdown
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: meow
+    when:
+      paths_changed: "**/*.md"
+    then:
+      ensure_commands:
+        - meow fmt
+`,
+		);
+
+		// Nested config for TypeScript
+		const pkgDir = path.join(tmpDir, "packages", "foo");
+		fs.mkdirSync(pkgDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(pkgDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: biome
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - biome check
+`,
+		);
+
+		// Edit a TS file in the nested package
+		const events: ToolEvent[] = [
+			{
+				toolName: "Edit",
+				filePath: path.join(pkgDir, "src", "index.ts"),
+				index: 0,
+			},
+		];
+
+		const result = runChecks(["packages/foo/src/index.ts"], events, tmpDir);
+		expect(result).toHaveLength(1);
+		expect(result[0].message).toContain("Check 'biome' failed");
+		expect(result[0].configPath).toBe(path.join(pkgDir, "rufio-hooks.yaml"));
+	});
+
+	it("reports every failing check across configs", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: meow
+    when:
+      paths_changed: "**/*.md"
+    then:
+      ensure_commands:
+        - meow fmt
+  - name: docs-index
+    when:
+      paths_changed: "**/*.md"
+    then:
+      ensure_changed:
+        - index.md
+`,
+		);
+
+		const pkgDir = path.join(tmpDir, "packages", "foo");
+		fs.mkdirSync(pkgDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(pkgDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: biome
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - biome check
+        - pnpm test
+`,
+		);
+
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "README.md"), index: 0 },
+			{ toolName: "Edit", filePath: path.join(pkgDir, "index.ts"), index: 1 },
+		];
+
+		const result = runChecks(
+			["README.md", "packages/foo/index.ts"],
+			events,
+			tmpDir,
+		);
+		expect(result.map((f) => f.checkName)).toEqual([
+			"meow",
+			"docs-index",
+			"biome",
+		]);
+		expect(result[2]).toMatchObject({
+			matchingFiles: ["packages/foo/index.ts"],
+			missingCommands: ["biome check", "pnpm test"],
+		});
+	});
+
+	it("evaluates inherited checks relative to the parent config, once", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: foo-lint
+    when:
+      paths_changed: "packages/foo/**/*.ts"
+    then:
+      ensure_commands:
+        - biome check
+`,
+		);
+		const pkgDir = path.join(tmpDir, "packages", "foo");
+		fs.mkdirSync(path.join(pkgDir, "nested"), { recursive: true });
+		fs.writeFileSync(
+			path.join(pkgDir, "nested", "rufio-hooks.yaml"),
+			"inherit: true\n",
+		);
+
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(pkgDir, "index.ts"), index: 0 },
+			{
+				toolName: "Edit",
+				filePath: path.join(pkgDir, "nested", "index.ts"),
+				index: 1,
+			},
+		];
+		const result = runChecks(
+			["packages/foo/index.ts", "packages/foo/nested/index.ts"],
+			events,
+			tmpDir,
+		);
+
+		expect(result).toHaveLength(1);
+		expect(result[0]).toMatchObject({
+			checkName: "foo-lint",
+			configPath: path.join(tmpDir, "rufio-hooks.yaml"),
+			matchingFiles: ["packages/foo/index.ts", "packages/foo/nested/index.ts"],
+		});
+	});
+});
+
+describe("when conditions", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("evaluates branch, env and command_exists conditions", () => {
+		fs.writeFileSync(path.join(tmpDir, "tool"), "", { mode: 0o755 });
+		const context = {
+			configDir: tmpDir,
+			matchingFiles: [],
+			branch: "release/1.2",
+			env: { CI: "true", PATH: tmpDir },
+		};
+
+		expect(evaluateCondition({ branch: "release/*" }, context)).toBeNull();
+		expect(evaluateCondition({ branch: ["main"] }, context)).toBe(
+			'branch ["main"] (on release/1.2)',
+		);
+		expect(evaluateCondition({ env: "CI" }, context)).toBeNull();
+		expect(evaluateCondition({ env: { CI: "false" } }, context)).toBe(
+			'env {"CI":"false"} (is "true")',
+		);
+		expect(evaluateCondition({ command_exists: "tool" }, context)).toBeNull();
+		expect(evaluateCondition({ command_exists: "nix" }, context)).toBe(
+			'command_exists "nix"',
+		);
+	});
+
+	it("combines conditions with all, any and not", () => {
+		const context = {
+			configDir: tmpDir,
+			matchingFiles: [],
+			branch: "main",
+			env: {},
+		};
+
+		expect(
+			evaluateCondition({ any: [{ env: "CI" }, { branch: "main" }] }, context),
+		).toBeNull();
+		expect(
+			evaluateCondition({ all: [{ env: "CI" }, { branch: "main" }] }, context),
+		).toBe('env "CI" (not set)');
+		expect(evaluateCondition({ not: { branch: "main" } }, context)).toBe(
+			'not(branch "main")',
+		);
+		expect(
+			evaluateCondition(
+				{ any: [{ env: "CI" }, { not: { branch: "main" } }] },
+				context,
+			),
+		).toBe('any(env "CI", not(branch "main"))');
+	});
+
+	it("skips checks whose matching files do not contain a pattern", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: schema-dump
+    when:
+      paths_changed: "migrations/*.sql"
+      file_contains: "^CREATE TABLE"
+    then:
+      ensure_commands:
+        - make schema
+`,
+		);
+		fs.mkdirSync(path.join(tmpDir, "migrations"));
+		fs.writeFileSync(
+			path.join(tmpDir, "migrations/001.sql"),
+			"-- add index\nCREATE INDEX a ON t (a);\n",
+		);
+		const edit = (file: string): ToolEvent[] => [
+			{ toolName: "Edit", filePath: path.join(tmpDir, file), index: 0 },
+		];
+
+		const [skipped] = evaluateChecks(
+			["migrations/001.sql"],
+			edit("migrations/001.sql"),
+			tmpDir,
+		);
+		expect(skipped).toMatchObject({
+			status: "skipped",
+			reason: "condition_unmet",
+			detail: 'file_contains "^CREATE TABLE"',
+		});
+
+		fs.writeFileSync(
+			path.join(tmpDir, "migrations/002.sql"),
+			"CREATE TABLE t (a int);\n",
+		);
+		const [failed] = evaluateChecks(
+			["migrations/001.sql", "migrations/002.sql"],
+			edit("migrations/002.sql"),
+			tmpDir,
+		);
+		expect(failed.status).toBe("failed");
+	});
+
+	it("does not read submodule directories for file content", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: vendor-license
+    when:
+      paths_changed: "vendor/**"
+      file_contains: "GPL"
+    then:
+      ensure_file_contains:
+        - path: vendor/lib
+          regex: MIT
+`,
+		);
+		fs.mkdirSync(path.join(tmpDir, "vendor/lib"), { recursive: true });
+		fs.writeFileSync(path.join(tmpDir, "vendor/NOTICE"), "GPL\n");
+		const events: ToolEvent[] = [
+			{
+				toolName: "Edit",
+				filePath: path.join(tmpDir, "vendor/NOTICE"),
+				index: 0,
+			},
+		];
+
+		const [skipped] = evaluateChecks(
+			[{ path: "vendor/lib", kind: "submodule" }],
+			events,
+			tmpDir,
+		);
+		expect(skipped).toMatchObject({
+			status: "skipped",
+			reason: "condition_unmet",
+		});
+
+		const [failed] = evaluateChecks(
+			[
+				{ path: "vendor/lib", kind: "submodule" },
+				{ path: "vendor/NOTICE", kind: "modified" },
+			],
+			events,
+			tmpDir,
+		);
+		expect(failed).toMatchObject({
+			status: "failed",
+			missingContent: ["vendor/lib (/MIT/)"],
+		});
+	});
+});
+
+describe("failure messages", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("renders the message template and attaches the hint", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: version-bump
+    when:
+      paths_changed: "src/**/*.ts"
+    then:
+      - ensure_changed: [version.toml]
+      - ensure_commands: [pnpm test]
+    message: "{check}: {files} changed without {missing_changes}; still to run: {missing_commands} {unknown}"
+    hint: bump the patch version in version.toml following semver
+`,
+		);
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "src/a.ts"), index: 0 },
+		];
+
+		const [failure] = runChecks(["src/a.ts"], events, tmpDir);
+
+		expect(failure.message).toBe(
+			"version-bump: src/a.ts changed without version.toml; still to run: pnpm test {unknown}",
+		);
+		expect(failure.hint).toBe(
+			"bump the patch version in version.toml following semver",
+		);
+		expect(formatFailures([failure])).toContain(
+			"   Hint: bump the patch version in version.toml following semver",
+		);
+	});
+
+	it("can wrap the default message", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: test
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands: [pnpm test]
+    message: "{message} (run it from {config_dir})"
+`,
+		);
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "a.ts"), index: 0 },
+		];
+
+		const [failure] = runChecks(["a.ts"], events, tmpDir);
+
+		expect(failure.message).toBe(
+			`Check 'test' failed: these commands must run after editing **/*.ts: pnpm test (run it from ${tmpDir})`,
+		);
+		expect(failure.hint).toBeUndefined();
+	});
+});
+
+describe("formatFailures", () => {
+	it("returns null when there are no failures", () => {
+		expect(formatFailures([])).toBeNull();
+	});
+
+	it("lists every failure in a single prompt", () => {
+		const prompt = formatFailures([
+			{
+				status: "failed",
+				checkName: "a",
+				configPath: "/repo/rufio-hooks.yaml",
+				matchingFiles: ["x.ts"],
+				message: "Check 'a' failed: run a",
+			},
+			{
+				status: "failed",
+				checkName: "b",
+				configPath: "/repo/pkg/rufio-hooks.yaml",
+				matchingFiles: ["pkg/y.ts", "pkg/z.ts"],
+				message: "Check 'b' failed: run b",
+			},
+		]);
+		expect(prompt).toContain("2 failing checks");
+		expect(prompt).toContain("1. Check 'a' failed: run a");
+		expect(prompt).toContain("2. Check 'b' failed: run b");
+		expect(prompt).toContain("Files: pkg/y.ts, pkg/z.ts");
+	});
+});
+
+describe("formatWarnings", () => {
+	it("notes failures that do not block stopping", () => {
+		expect(formatWarnings([])).toBeNull();
+		const note = formatWarnings([
+			{
+				status: "failed",
+				severity: "warn",
+				checkName: "a",
+				configPath: "/repo/rufio-hooks.yaml",
+				matchingFiles: ["x.ts"],
+				message: "Check 'a' failed: run a",
+			},
+		]);
+		expect(note).toContain("1 failing check that does not block stopping");
+		expect(note).toContain("1. Check 'a' failed: run a");
+	});
+});
+
+describe("evaluateChecks", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: nix-version
+    when:
+      paths_changed: "**/*.ts"
+      path_exists: package.nix
+    then:
+      ensure_changed:
+        - version.toml
+  - name: docs
+    when:
+      paths_changed: "**/*.md"
+    then:
+      ensure_commands:
+        - meow fmt
+  - name: biome
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - biome check
+  - name: tests
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm test
+`,
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("reports passed, skipped and failed checks", () => {
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "a.ts"), index: 0 },
+			{ toolName: "Bash", command: "biome check", index: 1 },
+		];
+
+		const results = evaluateChecks(["a.ts"], events, tmpDir);
+
+		expect(results.map((r) => [r.checkName, r.status])).toEqual([
+			["nix-version", "skipped"],
+			["docs", "skipped"],
+			["biome", "passed"],
+			["tests", "failed"],
+		]);
+		expect(results[0]).toMatchObject({ reason: "path_exists_unmet" });
+		expect(results[1]).toMatchObject({ reason: "no_matching_files" });
+	});
+
+	it("skips checks whose files were not edited in the session", () => {
+		const results = evaluateChecks(["a.ts"], [], tmpDir);
+
+		expect(results[2]).toMatchObject({
+			status: "skipped",
+			reason: "not_edited_in_session",
+			matchingFiles: ["a.ts"],
+		});
+	});
+});
+
+describe("check reports", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("builds a report that is blocked when any check failed", () => {
+		const report = buildReport(
+			"ses_1",
+			["a.ts"],
+			[
+				{
+					status: "failed",
+					checkName: "tests",
+					configPath: "/repo/rufio-hooks.yaml",
+					matchingFiles: ["a.ts"],
+					message: "Check 'tests' failed",
+				},
+			],
+			new Date("2026-01-02T03:04:05Z"),
+		);
+
+		expect(report).toMatchObject({
+			version: 1,
+			sessionID: "ses_1",
+			generatedAt: "2026-01-02T03:04:05.000Z",
+			blocked: true,
+		});
+		expect(buildReport("ses_1", [], []).blocked).toBe(false);
+	});
+
+	it("is not blocked by warn and info failures", () => {
+		const failure = (severity: "warn" | "info") => ({
+			status: "failed" as const,
+			severity,
+			checkName: severity,
+			configPath: "/repo/rufio-hooks.yaml",
+			matchingFiles: ["a.ts"],
+			message: `Check '${severity}' failed`,
+		});
+
+		expect(
+			buildReport("ses_1", ["a.ts"], [failure("warn"), failure("info")])
+				.blocked,
+		).toBe(false);
+	});
+
+	it("writes the report under the session directory", () => {
+		const reportPath = resolveReportPath(
+			tmpDir,
+			".rufio/reports/{sessionID}.json",
+			"ses_1",
+		);
+		expect(reportPath).toBe(
+			path.join(tmpDir, ".rufio", "reports", "ses_1.json"),
+		);
+
+		writeReport(reportPath, buildReport("ses_1", ["a.ts"], []));
+		const written = JSON.parse(fs.readFileSync(reportPath, "utf-8"));
+		expect(written.changedFiles).toEqual(["a.ts"]);
+	});
+
+	it("rejects report paths outside the session directory", () => {
+		expect(() => resolveReportPath(tmpDir, "../report.json", "ses_1")).toThrow(
+			"must be a file under",
+		);
+	});
+});
+
+describe("auto_run", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: lint
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm lint
+      auto_run: true
+      auto_run_timeout: 60
+`,
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	/** Fake command runner that records commands and returns a fixed result */
+	function fakeRunner(exitCode: number, output: string) {
+		const calls: { command: string; cwd: string }[] = [];
+		const run = async (command: string, cwd: string) => {
+			calls.push({ command, cwd });
+			return { exitCode, output };
+		};
+		return { run, calls };
+	}
+
+	it("marks missing commands as runnable in the config directory", () => {
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "a.ts"), index: 0 },
+		];
+
+		const [failure] = runChecks(["a.ts"], events, tmpDir);
+		expect(failure.autoRun).toEqual({
+			commands: ["pnpm lint"],
+			cwd: tmpDir,
+			timeoutMs: 60_000,
+		});
+	});
+
+	it("runs missing commands and passes when they succeed", async () => {
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "a.ts"), index: 0 },
+		];
+		const { run, calls } = fakeRunner(0, "ok");
+
+		const failures = runChecks(["a.ts"], events, tmpDir);
+		const records = await autoRunMissingCommands(failures, events.length, run);
+
+		expect(calls).toEqual([{ command: "pnpm lint", cwd: tmpDir }]);
+		expect(records).toMatchObject([{ command: "pnpm lint", exitCode: 0 }]);
+		expect(runChecks(["a.ts"], mergeAutoRuns(events, records), tmpDir)).toEqual(
+			[],
+		);
+	});
+
+	it("includes the output tail when an auto-run command fails", async () => {
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "a.ts"), index: 0 },
+		];
+		const { run } = fakeRunner(1, "a.ts:1 lint error\n");
+
+		const failures = runChecks(["a.ts"], events, tmpDir);
+		const records = await autoRunMissingCommands(failures, events.length, run);
+		const [failure] = runChecks(
+			["a.ts"],
+			mergeAutoRuns(events, records),
+			tmpDir,
+		);
+
+		expect(failure.failedCommands).toEqual(["pnpm lint (exit code 1)"]);
+		expect(failure.message).toContain("a.ts:1 lint error");
+		expect(failure.autoRun).toBeUndefined();
+	});
+
+	it("runs commands in the given directory", async () => {
+		expect(
+			await runCommand("pwd; echo oops >&2; exit 3", tmpDir, 10_000),
+		).toEqual({
+			exitCode: 3,
+			output: `${fs.realpathSync(tmpDir)}\noops\n`,
+		});
+	});
+
+	it("terminates commands that exceed the timeout", async () => {
+		const done = path.join(tmpDir, "done");
+		const result = await runCommand(
+			`(sleep 1; touch ${done}) & wait`,
+			tmpDir,
+			200,
+		);
+
+		expect(result.exitCode).toBe(124);
+		expect(result.output).toContain("Timed out after 0.2s");
+		// The background job was killed with the shell, so it never finishes
+		await new Promise((resolve) => setTimeout(resolve, 1500));
+		expect(fs.existsSync(done)).toBe(false);
+	});
+
+	it("requires a re-run after a later edit", () => {
+		const events: ToolEvent[] = [
+			{ toolName: "Edit", filePath: path.join(tmpDir, "a.ts"), index: 0 },
+			{ toolName: "Edit", filePath: path.join(tmpDir, "a.ts"), index: 1 },
+		];
+		const records = [
+			{
+				command: "pnpm lint",
+				cwd: tmpDir,
+				eventCount: 1,
+				exitCode: 0,
+				output: "",
+			},
+		];
+
+		const merged = mergeAutoRuns(events, records);
+		expect(merged.map((e) => [e.toolName, e.index])).toEqual([
+			["Edit", 0],
+			["Bash", 1],
+			["Edit", 2],
+		]);
+		expect(runChecks(["a.ts"], merged, tmpDir)[0].missingCommands).toEqual([
+			"pnpm lint",
+		]);
+	});
+
+	it("replaces older records of the same command", () => {
+		const old = {
+			command: "pnpm lint",
+			cwd: tmpDir,
+			eventCount: 1,
+			exitCode: 1,
+			output: "",
+		};
+		const latest = { ...old, eventCount: 3, exitCode: 0 };
+		expect(updateAutoRunRecords([old], [latest])).toEqual([latest]);
+	});
+});
+
+describe("loop protection", () => {
+	const failure = (checkName: string): CheckFailure => ({
+		status: "failed",
+		checkName,
+		configPath: "/repo/rufio-hooks.yaml",
+		matchingFiles: ["a.ts"],
+		message: `Check '${checkName}' failed`,
+	});
+
+	/** Decides repeatedly for the same failures, carrying the state along */
+	function decideTimes(
+		times: number,
+		failures: CheckFailure[],
+		settings = {},
+		initial?: RetryState,
+	) {
+		const actions: string[] = [];
+		let state = initial;
+		for (let i = 0; i < times; i++) {
+			const decision = decideReprompt(state, failures, settings);
+			actions.push(decision.action);
+			state = decision.state;
+		}
+		return { actions, state };
+	}
+
+	it("re-prompts up to max_retries times, escalates once, then stays silent", () => {
+		const { actions } = decideTimes(6, [failure("lint")], { max_retries: 3 });
+
+		expect(actions).toEqual([
+			"reprompt",
+			"reprompt",
+			"reprompt",
+			"escalate",
+			"stop",
+			"stop",
+		]);
+	});
+
+	it("defaults to 5 retries and a toast", () => {
+		const { actions } = decideTimes(6, [failure("lint")]);
+		expect(actions.filter((a) => a === "reprompt")).toHaveLength(5);
+		expect(actions[5]).toBe("escalate");
+
+		expect(decideReprompt(undefined, [failure("lint")], {}).toast).toBe(true);
+		expect(
+			decideReprompt(undefined, [failure("lint")], { toast: false }).toast,
+		).toBe(false);
+	});
+
+	it("resets when the set of failing checks changes", () => {
+		const settings = { max_retries: 2 };
+		const { state } = decideTimes(
+			3,
+			[failure("lint"), failure("test")],
+			settings,
+		);
+		expect(state?.count).toBe(3);
+
+		// Fixing one check restores the full budget
+		const { actions } = decideTimes(4, [failure("lint")], settings, state);
+		expect(actions).toEqual(["reprompt", "reprompt", "escalate", "stop"]);
+
+		// The order of failures does not matter
+		const reordered = decideTimes(
+			1,
+			[failure("test"), failure("lint")],
+			settings,
+			decideTimes(1, [failure("lint"), failure("test")], settings).state,
+		);
+		expect(reordered.state?.count).toBe(2);
 	});
 });
@@ -0,0 +1,238 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runCli } from "../cli.js";
+
+describe("rufio CLI", () => {
+	let tmpDir: string;
+	let transcriptPath: string;
+
+	/** Runs the CLI, capturing its output */
+	function run(...argv: string[]) {
+		let output = "";
+		const code = runCli(argv, (text) => {
+			output += text;
+		});
+		return { code, output };
+	}
+
+	/** Builds a completed tool part */
+	function toolPart(tool: string, input: Record<string, unknown>, exit = 0) {
+		return {
+			id: `part-${tool}`,
+			sessionID: "ses_1",
+			messageID: "msg_1",
+			type: "tool",
+			callID: `call-${tool}`,
+			tool,
+			state: {
+				status: "completed",
+				input,
+				output: "",
+				title: "",
+				metadata: { exit },
+				time: { start: 0, end: 0 },
+			},
+		};
+	}
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: tests
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm test
+        - pnpm lint
+  - name: docs
+    when:
+      paths_changed: "**/*.md"
+    then:
+      ensure_commands:
+        - meow fmt
+`,
+		);
+		transcriptPath = path.join(tmpDir, "session.json");
+		fs.writeFileSync(
+			transcriptPath,
+			JSON.stringify({
+				info: { id: "ses_1" },
+				messages: [
+					{
+						info: { id: "msg_1", role: "assistant", path: { cwd: tmpDir } },
+						parts: [
+							toolPart("edit", { filePath: path.join(tmpDir, "a.ts") }),
+							toolPart("bash", { command: "pnpm test" }, 1),
+						],
+					},
+				],
+			}),
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("prints a verdict for each check", () => {
+		const { code, output } = run(
+			"check",
+			"--transcript",
+			transcriptPath,
+			"--repo",
+			tmpDir,
+			"--changed",
+			"a.ts",
+		);
+
+		expect(code).toBe(1);
+		expect(output).toContain("FAIL tests (rufio-hooks.yaml)");
+		expect(output).toContain("SKIP docs (rufio-hooks.yaml): no_matching_files");
+	});
+
+	it("does not fail on warn checks", () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+checks:
+  - name: tests
+    severity: warn
+    when:
+      paths_changed: "**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm lint
+`,
+		);
+
+		const { code, output } = run(
+			"check",
+			"--transcript",
+			transcriptPath,
+			"--repo",
+			tmpDir,
+			"--changed",
+			"a.ts",
+		);
+
+		expect(code).toBe(0);
+		expect(output).toContain("WARN tests (rufio-hooks.yaml)");
+	});
+
+	it("prints results as JSON", () => {
+		const { output } = run(
+			"check",
+			"--transcript",
+			transcriptPath,
+			"--repo",
+			tmpDir,
+			"--changed",
+			"a.ts",
+			"--json",
+		);
+
+		const results = JSON.parse(output);
+		expect(results.map((r: { status: string }) => r.status)).toEqual([
+			"failed",
+			"skipped",
+		]);
+	});
+
+	it("explains which events decided a check", () => {
+		const { code, output } = run(
+			"explain",
+			"tests",
+			"--transcript",
+			transcriptPath,
+			"--repo",
+			tmpDir,
+			"--changed",
+			"a.ts",
+		);
+
+		expect(code).toBe(1);
+		expect(output).toContain("matching files: a.ts");
+		expect(output).toContain(`last matching edit: #0 Edit ${tmpDir}/a.ts`);
+		expect(output).toContain("pnpm test: failed: #1 Bash pnpm test (exit 1)");
+		expect(output).toContain("pnpm lint: not run");
+	});
+
+	it("validates the repo config", () => {
+		const { code, output } = run("validate", "--repo", tmpDir);
+
+		expect(code).toBe(0);
+		expect(output).toContain("OK ");
+	});
+
+	it("reports every problem in an invalid config", () => {
+		const configPath = path.join(tmpDir, "bad.yaml");
+		fs.writeFileSync(
+			configPath,
+			`checks:
+  - name: tests
+    when:
+      paths_changed: 42
+    then:
+      ensure_commands: []
+`,
+		);
+
+		const { code, output } = run("validate", configPath);
+
+		expect(code).toBe(1);
+		expect(output).toContain(
+			"4:22: checks[0].when.paths_changed: expected a string or an array",
+		);
+		expect(output).toContain(
+			"6:24: checks[0].then.ensure_commands: must have at least 1 item",
+		);
+	});
+
+	it("lists the effective checks for a file", () => {
+		const pkgDir = path.join(tmpDir, "packages", "foo");
+		fs.mkdirSync(pkgDir, { recursive: true });
+		fs.writeFileSync(
+			path.join(pkgDir, "rufio-hooks.yaml"),
+			`
+inherit: true
+checks:
+  - name: foo-tests
+    when:
+      paths_changed: "src/**/*.ts"
+    then:
+      ensure_commands:
+        - pnpm test
+`,
+		);
+
+		const { code, output } = run(
+			"config",
+			"packages/foo/src/a.ts",
+			"--repo",
+			tmpDir,
+		);
+
+		expect(code).toBe(0);
+		expect(output).toBe(
+			[
+				"packages/foo/src/a.ts (packages/foo/rufio-hooks.yaml <- rufio-hooks.yaml)",
+				"  MATCH tests (rufio-hooks.yaml)",
+				"  SKIP docs (rufio-hooks.yaml): no_matching_files",
+				"  MATCH foo-tests (packages/foo/rufio-hooks.yaml)",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("reports usage errors", () => {
+		expect(run("check").code).toBe(2);
+		expect(run("explain", "--transcript", transcriptPath).code).toBe(2);
+		expect(run("bogus").output).toContain("Unknown command 'bogus'");
+	});
+});
@@ -0,0 +1,185 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadConfig, validateConfigFile } from "../config.js";
+import { checkGuards } from "../guards.js";
+import { extractToolCall } from "../transcript.js";
+
+describe("checkGuards", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+		fs.writeFileSync(
+			path.join(tmpDir, "rufio-hooks.yaml"),
+			`
+guards:
+  - name: generated
+    deny_edits: ["pnpm-lock.yaml", "dist/**", "!dist/README.md"]
+    reason: Run pnpm install or pnpm build instead.
+  - name: dangerous
+    deny_commands:
+      - npm publish
+      - regex: "^git push .*(--force|-f)\\\\b"
+      - exact: rm -rf /
+`,
+		);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	const guard = (tool: string, args: Record<string, unknown>) =>
+		checkGuards(extractToolCall(tool, args, tmpDir), tmpDir, tmpDir);
+
+	it("denies edits to protected globs relative to the config", () => {
+		const denial = guard("edit", { filePath: "dist/index.js" });
+
+		expect(denial).toEqual({
+			guardName: "generated",
+			configPath: path.join(tmpDir, "rufio-hooks.yaml"),
+			message:
+				"Rufio guard 'generated' denied this call: dist/index.js must not be edited directly\nRun pnpm install or pnpm build instead.",
+		});
+		expect(
+			guard("write", { filePath: path.join(tmpDir, "pnpm-lock.yaml") }),
+		).not.toBeNull();
+		expect(
+			guard("apply_patch", {
+				patchText: "*** Begin Patch\n*** Update File: dist/a.js\n*** End Patch",
+			})?.guardName,
+		).toBe("generated");
+		expect(guard("edit", { filePath: "dist/README.md" })).toBeNull();
+		expect(guard("edit", { filePath: "src/index.ts" })).toBeNull();
+		expect(guard("read", { filePath: "dist/index.js" })).toBeNull();
+	});
+
+	it("denies Bash commands matching a pattern", () => {
+		expect(guard("bash", { command: "pnpm build && npm publish" })).toEqual(
+			expect.objectContaining({
+				guardName: "dangerous",
+				message:
+					"Rufio guard 'dangerous' denied this call: commands matching npm publish must not run",
+			}),
+		);
+		expect(
+			guard("bash", { command: "git push origin main --force" }),
+		).not.toBeNull();
+		expect(guard("bash", { command: "cd / && rm -rf /" })).not.toBeNull();
+		expect(guard("bash", { command: "rm -rf /tmp/build" })).toBeNull();
+		expect(guard("bash", { command: "git push origin main" })).toBeNull();
+	});
+
+	it("applies inherited guards in nested configs", () => {
+		const pkg = path.join(tmpDir, "packages/app");
+		fs.mkdirSync(pkg, { recursive: true });
+		fs.writeFileSync(
+			path.join(pkg, "rufio-hooks.yaml"),
+			`
+inherit: true
+guards:
+  - name: vendored
+    deny_edits: "vendor/**"
+`,
+		);
+
+		expect(
+			guard("edit", { filePath: "packages/app/vendor/lib.js" })?.guardName,
+		).toBe("vendored");
+		// The parent's globs stay relative to the parent's directory
+		expect(
+			guard("edit", { filePath: "packages/app/dist/a.js" })?.guardName,
+		).toBeUndefined();
+		expect(
+			guard("edit", { filePath: "packages/app/pnpm-lock.yaml" }),
+		).toBeNull();
+		expect(guard("edit", { filePath: "vendor/lib.js" })).toBeNull();
+	});
+
+	it("checks Bash commands against the config where they run", () => {
+		const pkg = path.join(tmpDir, "packages/app");
+		fs.mkdirSync(pkg, { recursive: true });
+		fs.writeFileSync(
+			path.join(pkg, "rufio-hooks.yaml"),
+			"guards:\n  - name: deploy\n    deny_commands: [pnpm deploy]\n",
+		);
+
+		expect(
+			guard("bash", { command: "pnpm deploy", workdir: pkg })?.guardName,
+		).toBe("deploy");
+		expect(
+			guard("bash", { command: "cd packages/app && pnpm deploy" })?.guardName,
+		).toBe("deploy");
+		// Leaving the directory does not escape its guards
+		expect(
+			guard("bash", { command: "cd / && pnpm deploy", workdir: pkg }),
+		).not.toBeNull();
+		expect(guard("bash", { command: "pnpm deploy" })).toBeNull();
+	});
+
+	it("applies the guards of a parent config that has no checks", () => {
+		const pkg = path.join(tmpDir, "packages/app");
+		fs.mkdirSync(pkg, { recursive: true });
+		fs.writeFileSync(path.join(pkg, "rufio-hooks.yaml"), "inherit: true\n");
+
+		expect(validateConfigFile(path.join(pkg, "rufio-hooks.yaml"))).toEqual([]);
+		const publish = extractToolCall("bash", { command: "npm publish" }, pkg);
+		expect(checkGuards(publish, pkg, tmpDir)?.guardName).toBe("dangerous");
+	});
+
+	it("allows everything when the config fails to load", () => {
+		fs.writeFileSync(path.join(tmpDir, "rufio-hooks.yaml"), "guards: 1\n");
+
+		expect(guard("edit", { filePath: "dist/index.js" })).toBeNull();
+	});
+});
+
+describe("guard config", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("accepts a config with only guards", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(
+			configPath,
+			"guards:\n  - name: lock\n    deny_edits: pnpm-lock.yaml\n",
+		);
+
+		expect(loadConfig(configPath).guards).toEqual([
+			{ name: "lock", deny_edits: "pnpm-lock.yaml" },
+		]);
+	});
+
+	it("rejects guards that deny nothing or have bad regexes", () => {
+		const configPath = path.join(tmpDir, "rufio-hooks.yaml");
+		fs.writeFileSync(
+			configPath,
+			`
+guards:
+  - name: empty
+  - name: push
+    deny_commands:
+      - regex: "git push (--force"
+`,
+		);
+
+		expect(() => loadConfig(configPath)).toThrow(
+			"guard 'empty' must have 'deny_edits' or 'deny_commands'",
+		);
+		expect(validateConfigFile(configPath)).toEqual([
+			`${configPath}: guard 'empty' must have 'deny_edits' or 'deny_commands'`,
+			expect.stringContaining(
+				`${configPath}: guard 'push' has an invalid deny_commands entry: bad regex`,
+			),
+		]);
+	});
+});
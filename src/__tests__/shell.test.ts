@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseCommand } from "../shell.js";
+
+/** Shorthand for the normalized commands and cwds of a parsed command */
+function parse(command: string, cwd?: string) {
+	return parseCommand(command, cwd).map((i) => [i.command, i.cwd]);
+}
+
+describe("parseCommand", () => {
+	it("tracks cd across compound commands", () => {
+		expect(parse("cd pkg && pnpm test; pnpm lint", "/repo")).toEqual([
+			["pnpm test", "/repo/pkg"],
+			["pnpm lint", "/repo/pkg"],
+		]);
+	});
+
+	it("does not leak cd out of subshells", () => {
+		expect(parse("(cd pkg && pnpm test) && pnpm lint", "/repo")).toEqual([
+			["pnpm test", "/repo/pkg"],
+			["pnpm lint", "/repo"],
+		]);
+	});
+
+	it("unwraps shell -c scripts", () => {
+		expect(parse(`bash -c "cd pkg && pnpm lint"`, "/repo")).toEqual([
+			["pnpm lint", "/repo/pkg"],
+		]);
+	});
+
+	it("unwraps timeout, env and nix develop", () => {
+		expect(parse("timeout -s KILL 300 pnpm test", "/repo")).toEqual([
+			["pnpm test", "/repo"],
+		]);
+		expect(parse("CI=1 env FOO=bar pnpm test", "/repo")).toEqual([
+			["pnpm test", "/repo"],
+		]);
+		expect(parse("nix develop .#ci -c pnpm test", "/repo")).toEqual([
+			["pnpm test", "/repo"],
+		]);
+		expect(parse(`nix-shell --run "pnpm test"`, "/repo")).toEqual([
+			["pnpm test", "/repo"],
+		]);
+	});
+
+	it("applies directory flags to the cwd", () => {
+		expect(parse("pnpm -C packages/foo test", "/repo")).toEqual([
+			["pnpm test", "/repo/packages/foo"],
+		]);
+		expect(parse("pnpm --dir=/abs test")).toEqual([["pnpm test", "/abs"]]);
+	});
+
+	it("strips redirections and comments", () => {
+		expect(parse("pnpm test 2>&1 > out.log # run tests", "/repo")).toEqual([
+			["pnpm test", "/repo"],
+		]);
+		expect(parse("# pnpm test", "/repo")).toEqual([]);
+	});
+
+	it("leaves the cwd unknown when it cannot be determined", () => {
+		expect(parse("cd ~ && pnpm test", "/repo")).toEqual([
+			["pnpm test", undefined],
+		]);
+		expect(parse("cd pkg && pnpm test")).toEqual([["pnpm test", undefined]]);
+	});
+});
@@ -0,0 +1,93 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	clearTabStatus,
+	formatTabName,
+	isZellij,
+	setTabStatus,
+} from "../status.js";
+
+describe("formatTabName", () => {
+	it("uses the default format and labels", () => {
+		expect(formatTabName("working", "/home/me/rufio-ts")).toBe("● rufio-ts");
+		expect(formatTabName("failed", "/home/me/rufio-ts")).toBe("✗ rufio-ts");
+	});
+
+	it("applies a custom format and labels", () => {
+		const name = formatTabName("permission", "/src/app", {
+			tab_format: "{project} [{status}]",
+			labels: { permission: "waiting" },
+		});
+		expect(name).toBe("app [waiting]");
+	});
+
+	it("falls back to default labels for unset states", () => {
+		const name = formatTabName("idle", "/src/app", {
+			labels: { working: "busy" },
+		});
+		expect(name).toBe("✓ app");
+	});
+});
+
+describe("isZellij", () => {
+	it("detects the ZELLIJ environment variable", () => {
+		expect(isZellij({ ZELLIJ: "0" })).toBe(true);
+		expect(isZellij({})).toBe(false);
+	});
+});
+
+describe("tab status", () => {
+	let commands: string[];
+	const $ = ((strings: TemplateStringsArray, ...values: unknown[]) => {
+		commands.push(strings.reduce((cmd, s, i) => `${cmd}${values[i - 1]}${s}`));
+		return { quiet: async () => {} };
+	}) as unknown as PluginInput["$"];
+
+	beforeEach(() => {
+		commands = [];
+		vi.stubEnv("ZELLIJ", "0");
+	});
+
+	afterEach(async () => {
+		// Sessions are module state; forget them so the tab name is reset
+		await clearTabStatus($, "ses_a");
+		await clearTabStatus($, "ses_b");
+		vi.unstubAllEnvs();
+	});
+
+	it("renames the tab when the state changes", async () => {
+		await setTabStatus($, "ses_a", "working", "/work/app");
+		await setTabStatus($, "ses_a", "working", "/work/app");
+		await setTabStatus($, "ses_a", "idle", "/work/app");
+
+		expect(commands).toEqual([
+			"zellij action rename-tab ● app",
+			"zellij action rename-tab ✓ app",
+		]);
+	});
+
+	it("falls back to the most recent remaining session", async () => {
+		await setTabStatus($, "ses_a", "working", "/work/app");
+		await setTabStatus($, "ses_b", "failed", "/work/lib");
+		await setTabStatus($, "ses_a", "idle", "/work/app");
+		commands = [];
+
+		await clearTabStatus($, "ses_a");
+		expect(commands).toEqual(["zellij action rename-tab ✗ lib"]);
+
+		await clearTabStatus($, "ses_b");
+		expect(commands).toEqual([
+			"zellij action rename-tab ✗ lib",
+			"zellij action undo-rename-tab",
+		]);
+	});
+
+	it("does nothing outside Zellij", async () => {
+		vi.stubEnv("ZELLIJ", "");
+
+		await setTabStatus($, "ses_a", "working", "/work/app");
+		await clearTabStatus($, "ses_a");
+
+		expect(commands).toEqual([]);
+	});
+});
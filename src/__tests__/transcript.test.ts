@@ -1,9 +1,19 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import type { Part, ToolState } from "@opencode-ai/sdk";
 import { describe, expect, it } from "vitest";
 import {
+	didSucceed,
 	extractToolEvents,
+	findLastCommandRunAfter,
 	findLastEditIndex,
+	getEditedPaths,
+	getTranscriptChanges,
 	type MessageWithParts,
+	matchesCommandPattern,
+	parsePatchPaths,
+	splitCommandSegments,
 	type ToolEvent,
 	wasCommandRunAfter,
 } from "../transcript.js";
@@ -12,20 +22,28 @@ import {
 function makeToolPart(
 	tool: string,
 	input: Record<string, unknown>,
-	status: "completed" | "running" | "pending" = "completed",
+	status: "completed" | "running" | "pending" | "error" = "completed",
+	metadata: Record<string, unknown> = {},
 ): Part {
 	let state: ToolState;
 	if (status === "pending") {
 		state = { status: "pending", input, raw: "" };
 	} else if (status === "running") {
 		state = { status: "running", input, time: { start: Date.now() } };
+	} else if (status === "error") {
+		state = {
+			status: "error",
+			input,
+			error: "aborted",
+			time: { start: Date.now(), end: Date.now() },
+		};
 	} else {
 		state = {
 			status: "completed",
 			input,
 			output: "",
 			title: "",
-			metadata: {},
+			metadata,
 			time: { start: Date.now(), end: Date.now() },
 		};
 	}
@@ -81,6 +99,38 @@ describe("extractToolEvents", () => {
 		});
 	});
 
+	it("extracts Bash exit status", () => {
+		const messages = [
+			makeMessage([
+				makeToolPart("Bash", { command: "pnpm test" }, "completed", {
+					exit: 1,
+				}),
+				makeToolPart("Bash", { command: "pnpm lint" }, "running"),
+				makeToolPart("Bash", { command: "pnpm build" }, "error"),
+			]),
+		];
+
+		const events = extractToolEvents(messages);
+
+		expect(events[0]).toMatchObject({ status: "completed", exitCode: 1 });
+		expect(events[1]).toMatchObject({ status: "running" });
+		expect(events[2]).toMatchObject({ status: "error", output: "aborted" });
+	});
+
+	it("parses Bash commands into invocations in the message cwd", () => {
+		const messages = [
+			makeMessage([
+				makeToolPart("Bash", { command: "cd pkg && timeout 60 pnpm test" }),
+			]),
+		];
+
+		const events = extractToolEvents(messages);
+
+		expect(events[0].invocations).toEqual([
+			{ argv: ["pnpm", "test"], command: "pnpm test", cwd: "/test/pkg" },
+		]);
+	});
+
 	it("extracts Edit file paths", () => {
 		const messages = [
 			makeMessage([makeToolPart("Edit", { filePath: "/src/main.rs" })]),
@@ -111,6 +161,69 @@ describe("extractToolEvents", () => {
 		});
 	});
 
+	it("extracts Read file paths", () => {
+		const messages = [
+			makeMessage([makeToolPart("read", { filePath: "/docs/design.md" })]),
+		];
+
+		const events = extractToolEvents(messages);
+
+		expect(events[0]).toMatchObject({
+			toolName: "Read",
+			filePath: "/docs/design.md",
+		});
+		expect(getEditedPaths(events[0])).toEqual([]);
+	});
+
+	it("extracts every file from patch tools", () => {
+		const patchText = [
+			"*** Begin Patch",
+			"*** Update File: src/a.ts",
+			"@@",
+			"-old",
+			"+new",
+			"*** Add File: /abs/b.ts",
+			"+content",
+			"*** End Patch",
+		].join("\n");
+		const messages = [
+			makeMessage([makeToolPart("apply_patch", { patchText })]),
+		];
+
+		const events = extractToolEvents(messages);
+
+		expect(events[0]).toMatchObject({
+			toolName: "Edit",
+			filePath: "/test/src/a.ts",
+			filePaths: ["/test/src/a.ts", "/abs/b.ts"],
+		});
+	});
+
+	it("extracts multiedit file paths", () => {
+		const messages = [
+			makeMessage([
+				makeToolPart("multiedit", { filePath: "/src/a.ts", edits: [] }),
+			]),
+		];
+
+		expect(extractToolEvents(messages)[0]).toMatchObject({
+			toolName: "Edit",
+			filePaths: ["/src/a.ts"],
+		});
+	});
+
+	it("applies configured tool aliases", () => {
+		const messages = [
+			makeMessage([makeToolPart("fs_put", { path: "/src/a.ts" })]),
+		];
+
+		expect(extractToolEvents(messages)[0].toolName).toBe("Fs_put");
+		expect(extractToolEvents(messages, { fs_put: "write" })[0]).toMatchObject({
+			toolName: "Write",
+			filePaths: ["/src/a.ts"],
+		});
+	});
+
 	it("handles mcp_ prefixed tool names", () => {
 		const messages = [
 			makeMessage([makeToolPart("mcp_bash", { command: "ls" })]),
@@ -164,12 +277,41 @@ describe("findLastEditIndex", () => {
 		expect(index).toBe(-1);
 	});
 
+	it("considers every file of multi-file events", () => {
+		const patchEvents: ToolEvent[] = [
+			{ toolName: "Edit", filePaths: ["/a.md", "/b.rs"], index: 0 },
+		];
+		expect(findLastEditIndex(patchEvents, (p) => p.endsWith(".rs"))).toBe(0);
+	});
+
 	it("ignores Bash events", () => {
 		const index = findLastEditIndex(events, () => true);
 		expect(index).toBe(3); // Last Edit/Write, not Bash
 	});
 });
 
+describe("getTranscriptChanges", () => {
+	it("lists edited files inside the directory once", () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rufio-test-"));
+		try {
+			fs.writeFileSync(path.join(dir, "a.ts"), "");
+			const events: ToolEvent[] = [
+				{ toolName: "Edit", filePath: path.join(dir, "a.ts"), index: 0 },
+				{ toolName: "Bash", command: "rm b.ts", index: 1 },
+				{ toolName: "Write", filePaths: ["a.ts", "b.ts"], index: 2 },
+				{ toolName: "Edit", filePath: "/elsewhere/c.ts", index: 3 },
+			];
+
+			expect(getTranscriptChanges(events, dir)).toEqual([
+				{ path: "a.ts", kind: "modified" },
+				{ path: "b.ts", kind: "deleted" },
+			]);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
+
 describe("wasCommandRunAfter", () => {
 	const events: ToolEvent[] = [
 		{ toolName: "Edit", filePath: "/src/main.rs", index: 0 },
@@ -196,3 +338,163 @@ describe("wasCommandRunAfter", () => {
 		);
 	});
 });
+
+describe("findLastCommandRunAfter", () => {
+	const events: ToolEvent[] = [
+		{ toolName: "Edit", filePath: "/src/main.rs", index: 0 },
+		{ toolName: "Bash", command: "cargo test", index: 1, exitCode: 0 },
+		{ toolName: "Bash", command: "cargo test", index: 2, exitCode: 101 },
+	];
+
+	it("returns the most recent matching run", () => {
+		expect(findLastCommandRunAfter(events, ["cargo test"], 0)?.index).toBe(2);
+	});
+
+	it("returns undefined when command not found", () => {
+		expect(findLastCommandRunAfter(events, ["cargo test"], 2)).toBeUndefined();
+	});
+});
+
+describe("didSucceed", () => {
+	it("treats events without status or exit code as successful", () => {
+		expect(didSucceed({ toolName: "Bash", command: "ls", index: 0 })).toBe(
+			true,
+		);
+	});
+
+	it("fails on non-zero exit codes", () => {
+		expect(
+			didSucceed({ toolName: "Bash", command: "ls", index: 0, exitCode: 2 }),
+		).toBe(false);
+	});
+
+	it("fails on running and errored tools", () => {
+		expect(didSucceed({ toolName: "Bash", index: 0, status: "running" })).toBe(
+			false,
+		);
+		expect(didSucceed({ toolName: "Bash", index: 0, status: "error" })).toBe(
+			false,
+		);
+	});
+});
+
+describe("splitCommandSegments", () => {
+	it("splits on shell operators", () => {
+		expect(
+			splitCommandSegments("cd pkg && pnpm test; pnpm lint | tee out || true"),
+		).toEqual(["cd pkg", "pnpm test", "pnpm lint", "tee out", "true"]);
+	});
+
+	it("keeps quoted operators and redirections intact", () => {
+		expect(
+			splitCommandSegments(`echo "a && b" 'c;d' && pnpm test 2>&1`),
+		).toEqual([`echo "a && b" 'c;d'`, "pnpm test 2>&1"]);
+	});
+});
+
+describe("matchesCommandPattern", () => {
+	it("matches plain strings as substrings", () => {
+		expect(matchesCommandPattern("echo pnpm test", "pnpm test")).toBe(true);
+	});
+
+	it("matches exact patterns against whole segments", () => {
+		const pattern = { exact: "pnpm test" };
+		expect(matchesCommandPattern("cd pkg && pnpm test", pattern)).toBe(true);
+		expect(matchesCommandPattern("echo pnpm test", pattern)).toBe(false);
+		expect(matchesCommandPattern("pnpm test --run foo", pattern)).toBe(false);
+	});
+
+	it("matches regex patterns against segments", () => {
+		const pattern = { regex: "^pnpm (run )?test$" };
+		expect(matchesCommandPattern("pnpm run test", pattern)).toBe(true);
+		expect(matchesCommandPattern("ls; pnpm test", pattern)).toBe(true);
+		expect(matchesCommandPattern("# pnpm test", pattern)).toBe(false);
+	});
+
+	it("matches unwrapped invocations of an event", () => {
+		const events: ToolEvent[] = [
+			{
+				toolName: "Bash",
+				command: "timeout 300 pnpm test",
+				index: 0,
+				invocations: [{ argv: ["pnpm", "test"], command: "pnpm test" }],
+			},
+		];
+		expect(
+			findLastCommandRunAfter(events, [{ exact: "pnpm test" }], -1)?.index,
+		).toBe(0);
+	});
+
+	it("matches any_of alternatives", () => {
+		const pattern = { any_of: [{ exact: "pnpm test" }, "vitest run"] };
+		expect(matchesCommandPattern("npx vitest run", pattern)).toBe(true);
+		expect(matchesCommandPattern("pnpm lint", pattern)).toBe(false);
+	});
+});
+
+describe("parsePatchPaths", () => {
+	it("parses unified diffs", () => {
+		const patch = [
+			"diff --git a/src/a.ts b/src/a.ts",
+			"--- a/src/a.ts",
+			"+++ b/src/a.ts",
+			"@@ -1 +1 @@",
+			"-a",
+			"+b",
+			"--- /dev/null",
+			"+++ b/src/new.ts\t2026-01-01",
+			"@@ -0,0 +1 @@",
+			"+new",
+		].join("\n");
+		expect(parsePatchPaths(patch)).toEqual(["src/a.ts", "src/new.ts"]);
+	});
+
+	it("does not read hunk lines starting with -- or ++ as file headers", () => {
+		const patch = [
+			"--- a/db/m.sql",
+			"+++ b/db/m.sql",
+			"@@ -1,3 +1,3 @@",
+			"--- old comment",
+			"+++ new comment",
+			" SELECT 1;",
+			"-x",
+			"+++ y",
+			"\\ No newline at end of file",
+		].join("\n");
+		expect(parsePatchPaths(patch)).toEqual(["db/m.sql"]);
+
+		const uncounted = [
+			"diff --git a/db/m.sql b/db/m.sql",
+			"--- a/db/m.sql",
+			"+++ b/db/m.sql",
+			"@@",
+			"--- old comment",
+			"+++ new comment",
+			"diff --git a/db/n.sql b/db/n.sql",
+			"--- a/db/n.sql",
+			"+++ b/db/n.sql",
+		].join("\n");
+		expect(parsePatchPaths(uncounted)).toEqual(["db/m.sql", "db/n.sql"]);
+	});
+
+	it("only reads envelope markers in envelope patches", () => {
+		const patch = [
+			"*** Begin Patch",
+			"*** Update File: db/m.sql",
+			"@@",
+			"--- old comment",
+			"+++ new comment",
+			"*** End Patch",
+		].join("\n");
+		expect(parsePatchPaths(patch)).toEqual(["db/m.sql"]);
+	});
+
+	it("parses moves in envelope patches", () => {
+		const patch = [
+			"*** Update File: old.ts",
+			"*** Move to: new.ts",
+			"*** Delete File: gone.ts",
+		].join("\n");
+		expect(parsePatchPaths(patch)).toEqual(["old.ts", "new.ts", "gone.ts"]);
+	});
+});
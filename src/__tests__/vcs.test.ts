@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { changedPaths } from "../vcs/backend.js";
+import { parseNameStatusZ, parsePorcelainV2 } from "../vcs/git.js";
+import { parseHgStatus } from "../vcs/hg.js";
+import { parseJjSummary } from "../vcs/jj.js";
+
+describe("parsePorcelainV2", () => {
+	const hash = "78981922613b2afb6025042ff6bd878ac1994e85";
+
+	it("classifies changes and keeps paths verbatim", () => {
+		const output = [
+			`1 .M N... 100644 100644 100644 ${hash} ${hash} b c.ts`,
+			`1 .D N... 100644 100644 000000 ${hash} ${hash} d.ts`,
+			`2 R. N... 100644 100644 100644 ${hash} ${hash} R100 moved.ts`,
+			"a.ts",
+			`1 A. N... 000000 100644 100644 ${hash} ${hash} ü.ts`,
+			`1 .M SC.. 160000 160000 160000 ${hash} ${hash} vendor/lib`,
+			`u UU N... 100644 100644 100644 100644 ${hash} ${hash} ${hash} conflict.ts`,
+			"? new file.ts",
+			"! ignored.log",
+			"",
+		].join("\0");
+
+		expect(parsePorcelainV2(output)).toEqual([
+			{ path: "b c.ts", kind: "modified" },
+			{ path: "d.ts", kind: "deleted" },
+			{ path: "moved.ts", kind: "renamed", originalPath: "a.ts" },
+			{ path: "ü.ts", kind: "added" },
+			{ path: "vendor/lib", kind: "submodule" },
+			{ path: "conflict.ts", kind: "unmerged" },
+			{ path: "new file.ts", kind: "untracked" },
+		]);
+	});
+});
+
+describe("parseNameStatusZ", () => {
+	it("parses committed changes", () => {
+		const output = [
+			"M",
+			"a.ts",
+			"R087",
+			"old.ts",
+			"new.ts",
+			"D",
+			"gone.ts",
+			"A",
+			"b.ts",
+			"",
+		].join("\0");
+
+		expect(parseNameStatusZ(output)).toEqual([
+			{ path: "a.ts", kind: "modified" },
+			{ path: "new.ts", kind: "renamed", originalPath: "old.ts" },
+			{ path: "gone.ts", kind: "deleted" },
+			{ path: "b.ts", kind: "added" },
+		]);
+	});
+});
+
+describe("changedPaths", () => {
+	it("includes the original path of renames", () => {
+		expect(
+			changedPaths([
+				{ path: "moved.ts", kind: "renamed", originalPath: "a.ts" },
+				{ path: "copy.ts", kind: "copied", originalPath: "b.ts" },
+			]),
+		).toEqual([
+			["moved.ts", "renamed"],
+			["a.ts", "renamed"],
+			["copy.ts", "copied"],
+		]);
+	});
+});
+
+describe("parseJjSummary", () => {
+	it("parses changes and expands renames", () => {
+		const output = [
+			"M src/a.ts",
+			"A new file.ts",
+			"D gone.ts",
+			"R src/{old.ts => new.ts}",
+			"R {lib => src}/util.ts",
+			"",
+		].join("\n");
+
+		expect(parseJjSummary(output)).toEqual([
+			{ path: "src/a.ts", kind: "modified" },
+			{ path: "new file.ts", kind: "added" },
+			{ path: "gone.ts", kind: "deleted" },
+			{ path: "src/new.ts", kind: "renamed", originalPath: "src/old.ts" },
+			{ path: "src/util.ts", kind: "renamed", originalPath: "lib/util.ts" },
+		]);
+	});
+});
+
+describe("parseHgStatus", () => {
+	it("parses changes and skips clean and ignored files", () => {
+		const output = [
+			"M a.ts",
+			"A b c.ts",
+			"R removed.ts",
+			"! missing.ts",
+			"? new.ts",
+			"I ignored.log",
+			"C clean.ts",
+			"",
+		].join("\0");
+
+		expect(parseHgStatus(output)).toEqual([
+			{ path: "a.ts", kind: "modified" },
+			{ path: "b c.ts", kind: "added" },
+			{ path: "removed.ts", kind: "deleted" },
+			{ path: "missing.ts", kind: "deleted" },
+			{ path: "new.ts", kind: "untracked" },
+		]);
+	});
+});
@@ -0,0 +1,109 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { ToolEvent } from "./transcript.js";
+import { changedPaths } from "./vcs/backend.js";
+import type { DetectedVcs } from "./vcs/detect.js";
+
+/**
+ * Working tree state: absolute path of each dirty file -> content hash.
+ * Deleted files hash to "deleted".
+ */
+export type Snapshot = Map<string, string>;
+
+/**
+ * Whether a tool name refers to the Bash tool
+ */
+export function isBashTool(tool: string): boolean {
+	return tool.toLowerCase().replace(/^mcp_/, "") === "bash";
+}
+
+/** Hashes a file's content, or returns a marker for missing files and directories */
+export function hashFile(path: string): string {
+	if (!existsSync(path)) {
+		return "deleted";
+	}
+	if (statSync(path).isDirectory()) {
+		return "directory";
+	}
+	return createHash("sha1").update(readFileSync(path)).digest("hex");
+}
+
+/**
+ * Snapshots the dirty files of a repository, as reported by its version control system.
+ * Returns null if the backend fails.
+ *
+ * @param alsoHash - Absolute paths to hash even if they are clean, e.g. the
+ *   paths of an earlier snapshot, so files that were committed compare by content
+ */
+export async function takeSnapshot(
+	$: PluginInput["$"],
+	{ backend, root }: DetectedVcs,
+	alsoHash: Iterable<string> = [],
+): Promise<Snapshot | null> {
+	try {
+		const changes = await backend.getChanges($, root);
+		const snapshot: Snapshot = new Map();
+		for (const [path] of changedPaths(changes)) {
+			const absolute = join(root, path);
+			snapshot.set(absolute, hashFile(absolute));
+		}
+		for (const absolute of alsoHash) {
+			if (!snapshot.has(absolute)) {
+				snapshot.set(absolute, hashFile(absolute));
+			}
+		}
+		return snapshot;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Returns the files whose content differs between two snapshots.
+ * `after` must also hash the paths of `before` (see `takeSnapshot`): a file that
+ * is no longer dirty because it was committed or staged has not changed.
+ */
+export function diffSnapshots(before: Snapshot, after: Snapshot): string[] {
+	const changed: string[] = [];
+	for (const [path, hash] of after) {
+		if (before.get(path) !== hash) {
+			changed.push(path);
+		}
+	}
+	return changed.sort();
+}
+
+/**
+ * Inserts an Edit event after each Bash call that changed files.
+ * The merged timeline is re-indexed, so commands run after the Bash call
+ * count as running after its edits.
+ *
+ * @param changes - Files changed by each tool call, keyed by call ID
+ */
+export function mergeAttributedChanges(
+	events: ToolEvent[],
+	changes: Map<string, string[]>,
+): ToolEvent[] {
+	if (changes.size === 0) {
+		return events;
+	}
+
+	const merged: ToolEvent[] = [];
+	for (const event of events) {
+		merged.push({ ...event, index: merged.length });
+		const paths = event.callID ? changes.get(event.callID) : undefined;
+		if (paths && paths.length > 0) {
+			merged.push({
+				toolName: "Edit",
+				filePath: paths[0],
+				filePaths: paths,
+				index: merged.length,
+				callID: event.callID,
+				attributedTo: event.toolName,
+			});
+		}
+	}
+	return merged;
+}
@@ -0,0 +1,176 @@
+import { spawn } from "node:child_process";
+import { parseCommand } from "../shell.js";
+import type { ToolEvent } from "../transcript.js";
+import type { CheckFailure } from "./result.js";
+
+/**
+ * A command rufio ran on the agent's behalf
+ */
+export interface AutoRunRecord {
+	command: string;
+	/** Directory the command ran in */
+	cwd: string;
+	/** Number of transcript tool events that existed when the command ran */
+	eventCount: number;
+	exitCode: number;
+	/** Combined stdout and stderr */
+	output: string;
+}
+
+/** Exit code reported when a command exceeds its timeout (as with coreutils `timeout`) */
+const TIMEOUT_EXIT_CODE = 124;
+
+/** Time a timed-out command gets to exit after SIGTERM before it is killed */
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Runs a shell command in the given directory, with a timeout.
+ * The command runs in its own process group, which is terminated when the
+ * timeout expires, so programs it started do not keep running.
+ * Never throws: failures to start are reported as a non-zero exit code.
+ */
+export function runCommand(
+	command: string,
+	cwd: string,
+	timeoutMs: number,
+): Promise<Pick<AutoRunRecord, "exitCode" | "output">> {
+	return new Promise((resolve) => {
+		let output = "";
+		let timedOut = false;
+		const child = spawn("sh", ["-c", command], {
+			cwd,
+			detached: true,
+			stdio: ["ignore", "pipe", "pipe"],
+		});
+		const append = (chunk: Buffer) => {
+			output += chunk.toString();
+		};
+		child.stdout.on("data", append);
+		child.stderr.on("data", append);
+
+		const killGroup = (signal: NodeJS.Signals) => {
+			try {
+				if (child.pid !== undefined) {
+					process.kill(-child.pid, signal);
+				}
+			} catch {
+				// The group has already exited
+			}
+		};
+		let killTimer: ReturnType<typeof setTimeout> | undefined;
+		const timer = setTimeout(() => {
+			timedOut = true;
+			killGroup("SIGTERM");
+			killTimer = setTimeout(() => killGroup("SIGKILL"), KILL_GRACE_MS);
+		}, timeoutMs);
+
+		const finish = (result: Pick<AutoRunRecord, "exitCode" | "output">) => {
+			clearTimeout(timer);
+			clearTimeout(killTimer);
+			resolve(result);
+		};
+		child.on("error", (e) => finish({ exitCode: 1, output: e.message }));
+		child.on("close", (code) =>
+			finish(
+				timedOut
+					? {
+							exitCode: TIMEOUT_EXIT_CODE,
+							output: `${output}Timed out after ${timeoutMs / 1000}s`,
+						}
+					: { exitCode: code ?? 1, output },
+			),
+		);
+	});
+}
+
+/**
+ * Runs the missing commands of every failure that allows auto_run.
+ * Each distinct command and directory pair runs once, in order.
+ *
+ * @param eventCount - Number of transcript tool events at the time of running
+ * @param run - Runs a command (replaceable in tests)
+ * @returns Records of the commands that were run
+ */
+export async function autoRunMissingCommands(
+	failures: CheckFailure[],
+	eventCount: number,
+	run: typeof runCommand = runCommand,
+): Promise<AutoRunRecord[]> {
+	const records: AutoRunRecord[] = [];
+	const seen = new Set<string>();
+
+	for (const failure of failures) {
+		if (!failure.autoRun) {
+			continue;
+		}
+		const { commands, cwd, timeoutMs } = failure.autoRun;
+		for (const command of commands) {
+			const key = `${cwd}\0${command}`;
+			if (seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+
+			const result = await run(command, cwd, timeoutMs);
+			records.push({ command, cwd, eventCount, ...result });
+		}
+	}
+
+	return records;
+}
+
+/**
+ * Inserts auto-run commands into the transcript timeline as Bash events.
+ * Each record is placed after the tool events that existed when it ran, and the
+ * merged timeline is re-indexed so edits made afterwards still invalidate it.
+ */
+export function mergeAutoRuns(
+	events: ToolEvent[],
+	records: AutoRunRecord[],
+): ToolEvent[] {
+	if (records.length === 0) {
+		return events;
+	}
+
+	const sorted = [...records].sort((a, b) => a.eventCount - b.eventCount);
+	const merged: ToolEvent[] = [];
+	let next = 0;
+
+	const pushRecordsUpTo = (position: number) => {
+		while (next < sorted.length && sorted[next].eventCount <= position) {
+			const record = sorted[next++];
+			merged.push({
+				toolName: "Bash",
+				command: record.command,
+				index: merged.length,
+				status: "completed",
+				exitCode: record.exitCode,
+				output: record.output,
+				autoRun: true,
+				invocations: parseCommand(record.command, record.cwd),
+			});
+		}
+	};
+
+	events.forEach((event, position) => {
+		pushRecordsUpTo(position);
+		merged.push({ ...event, index: merged.length });
+	});
+	pushRecordsUpTo(Number.POSITIVE_INFINITY);
+
+	return merged;
+}
+
+/**
+ * Replaces earlier records of the same command and directory with newer ones.
+ */
+export function updateAutoRunRecords(
+	existing: AutoRunRecord[],
+	latest: AutoRunRecord[],
+): AutoRunRecord[] {
+	const keys = new Set(latest.map((r) => `${r.cwd}\0${r.command}`));
+	return [
+		...existing.filter((r) => !keys.has(`${r.cwd}\0${r.command}`)),
+		...latest,
+	];
+}
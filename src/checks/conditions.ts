@@ -0,0 +1,163 @@
+import { execFileSync } from "node:child_process";
+import {
+	accessSync,
+	constants,
+	existsSync,
+	readFileSync,
+	statSync,
+} from "node:fs";
+import { delimiter, isAbsolute, join } from "node:path";
+import { minimatch } from "minimatch";
+import type { Condition } from "../config.js";
+
+/**
+ * What conditions are evaluated against
+ */
+export interface ConditionContext {
+	/** Directory containing the config file; relative paths resolve against it */
+	configDir: string;
+	/** Absolute paths of the changed files that matched the check */
+	matchingFiles: string[];
+	/** Environment variables (defaults to process.env) */
+	env?: NodeJS.ProcessEnv;
+	/** Current branch (or bookmark), or null outside a branch; looked up with git when omitted */
+	branch?: string | null;
+}
+
+/**
+ * Gets the current git branch of a directory.
+ * Returns null on a detached HEAD or outside a git repository.
+ */
+function currentBranch(dir: string): string | null {
+	try {
+		const branch = execFileSync("git", ["rev-parse", "--abbrev-ref", "HEAD"], {
+			cwd: dir,
+			encoding: "utf-8",
+			stdio: ["ignore", "pipe", "ignore"],
+		}).trim();
+		return branch === "HEAD" ? null : branch;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Whether a program can be found on PATH (or at a path relative to `dir`)
+ */
+function commandExists(
+	command: string,
+	dir: string,
+	env: NodeJS.ProcessEnv,
+): boolean {
+	const candidates = command.includes("/")
+		? [isAbsolute(command) ? command : join(dir, command)]
+		: (env.PATH ?? "")
+				.split(delimiter)
+				.filter(Boolean)
+				.map((pathDir) => join(pathDir, command));
+	return candidates.some((candidate) => {
+		try {
+			accessSync(candidate, constants.X_OK);
+			return true;
+		} catch {
+			return false;
+		}
+	});
+}
+
+/**
+ * Whether any of the files' content matches a regex.
+ * Only regular files are read: deleted files and directories (submodules) never match.
+ */
+function fileContains(files: string[], regex: string): boolean {
+	const pattern = new RegExp(regex, "m");
+	return files.some(
+		(file) =>
+			statSync(file, { throwIfNoEntry: false })?.isFile() &&
+			pattern.test(readFileSync(file, "utf-8")),
+	);
+}
+
+/** Describes a condition for messages, e.g. `any(branch "main", env "CI")` */
+function describeCondition(condition: Condition): string {
+	return Object.entries(condition)
+		.map(([key, value]) => {
+			if (key === "all" || key === "any") {
+				return `${key}(${(value as Condition[]).map(describeCondition).join(", ")})`;
+			}
+			if (key === "not") {
+				return `not(${describeCondition(value as Condition)})`;
+			}
+			return `${key} ${JSON.stringify(value)}`;
+		})
+		.join(" and ");
+}
+
+/**
+ * Evaluates a condition. Every key that is set must hold.
+ * The git branch is looked up at most once, and only if a condition needs it.
+ *
+ * @returns A description of the first condition that does not hold, or null if all hold
+ */
+export function evaluateCondition(
+	condition: Condition,
+	context: ConditionContext,
+): string | null {
+	const env = context.env ?? process.env;
+	let branch = context.branch;
+	const getBranch = (): string | null => {
+		if (branch === undefined) {
+			branch = currentBranch(context.configDir);
+		}
+		return branch;
+	};
+
+	const evaluate = (c: Condition): string | null => {
+		if (c.path_exists && !existsSync(join(context.configDir, c.path_exists))) {
+			return describeCondition({ path_exists: c.path_exists });
+		}
+		if (c.branch !== undefined) {
+			const name = getBranch();
+			if (name === null || ![c.branch].flat().some((p) => minimatch(name, p))) {
+				return `${describeCondition({ branch: c.branch })} (on ${name ?? "no branch"})`;
+			}
+		}
+		if (typeof c.env === "string" && !env[c.env]) {
+			return `${describeCondition({ env: c.env })} (not set)`;
+		}
+		if (typeof c.env === "object") {
+			for (const [name, value] of Object.entries(c.env)) {
+				if (env[name] !== value) {
+					return `${describeCondition({ env: { [name]: value } })} (is ${JSON.stringify(env[name] ?? null)})`;
+				}
+			}
+		}
+		if (
+			c.command_exists &&
+			!commandExists(c.command_exists, context.configDir, env)
+		) {
+			return describeCondition({ command_exists: c.command_exists });
+		}
+		if (
+			c.file_contains !== undefined &&
+			!fileContains(context.matchingFiles, c.file_contains)
+		) {
+			return describeCondition({ file_contains: c.file_contains });
+		}
+		for (const child of c.all ?? []) {
+			const unmet = evaluate(child);
+			if (unmet) {
+				return unmet;
+			}
+		}
+		if (c.any?.every((child) => evaluate(child) !== null)) {
+			return describeCondition({ any: c.any });
+		}
+		if (c.not && evaluate(c.not) === null) {
+			return describeCondition({ not: c.not });
+		}
+		return null;
+	};
+
+	return evaluate(condition);
+}
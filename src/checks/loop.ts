@@ -0,0 +1,66 @@
+import type { LoopProtectionConfig } from "../config.js";
+import type { CheckFailure } from "./result.js";
+
+/** Re-prompts for the same failing checks before giving up, unless configured */
+const DEFAULT_MAX_RETRIES = 5;
+
+/**
+ * Re-prompts counted for a session's current set of failing checks
+ */
+export interface RetryState {
+	/** Identifies the set of failing checks */
+	failing: string;
+	count: number;
+}
+
+/**
+ * What to do about blocking failures:
+ * `reprompt` the agent, `escalate` to the user (once), or `stop` after escalating
+ */
+export type RepromptAction = "reprompt" | "escalate" | "stop";
+
+/**
+ * Outcome of counting a re-prompt
+ */
+export interface RepromptDecision {
+	action: RepromptAction;
+	/** State to keep for the next decision */
+	state: RetryState;
+	/** Effective `max_retries` */
+	maxRetries: number;
+	/** Whether escalating shows a toast */
+	toast: boolean;
+}
+
+/**
+ * Counts a re-prompt for the failing checks and decides whether to send it.
+ * The count resets when the set of failing checks changes, so progress on any
+ * check restores the full budget. Once the same checks have blocked more than
+ * `max_retries` times in a row, the session escalates once and then stops.
+ *
+ * @param previous - State returned by the previous decision for the session
+ */
+export function decideReprompt(
+	previous: RetryState | undefined,
+	failures: CheckFailure[],
+	settings: LoopProtectionConfig,
+): RepromptDecision {
+	const failing = failures
+		.map((f) => `${f.configPath}#${f.checkName}`)
+		.sort()
+		.join("\n");
+	const count = previous?.failing === failing ? previous.count + 1 : 1;
+	const maxRetries = settings.max_retries ?? DEFAULT_MAX_RETRIES;
+	const action =
+		count <= maxRetries
+			? "reprompt"
+			: count === maxRetries + 1
+				? "escalate"
+				: "stop";
+	return {
+		action,
+		state: { failing, count },
+		maxRetries,
+		toast: settings.toast !== false,
+	};
+}
@@ -0,0 +1,75 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, relative, resolve } from "node:path";
+import { type CheckResult, isBlocking } from "./result.js";
+
+/**
+ * JSON report of a single idle evaluation, for consumption by other tools
+ */
+export interface CheckReport {
+	/** Report format version */
+	version: 1;
+	sessionID: string;
+	/** ISO 8601 timestamp of the evaluation */
+	generatedAt: string;
+	/** Whether any blocking check failed (and the session was re-prompted) */
+	blocked: boolean;
+	/** Changed files considered (relative to repo root) */
+	changedFiles: string[];
+	results: CheckResult[];
+}
+
+/**
+ * Builds a report from the results of an evaluation.
+ */
+export function buildReport(
+	sessionID: string,
+	changedFiles: string[],
+	results: CheckResult[],
+	now: Date = new Date(),
+): CheckReport {
+	return {
+		version: 1,
+		sessionID,
+		generatedAt: now.toISOString(),
+		blocked: results.some(isBlocking),
+		changedFiles,
+		results,
+	};
+}
+
+/**
+ * Serializes a report as pretty-printed JSON.
+ */
+export function serializeReport(report: CheckReport): string {
+	return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Resolves the configured report path against the session directory.
+ * Throws if the path escapes the session directory.
+ */
+export function resolveReportPath(
+	sessionDir: string,
+	pathTemplate: string,
+	sessionID: string,
+): string {
+	const reportPath = resolve(
+		sessionDir,
+		pathTemplate.replaceAll("{sessionID}", sessionID),
+	);
+	const relativePath = relative(resolve(sessionDir), reportPath);
+	if (!relativePath || relativePath.startsWith("..")) {
+		throw new Error(
+			`Invalid report path '${pathTemplate}': must be a file under ${sessionDir}`,
+		);
+	}
+	return reportPath;
+}
+
+/**
+ * Writes a report to disk, creating parent directories as needed.
+ */
+export function writeReport(reportPath: string, report: CheckReport): void {
+	mkdirSync(dirname(reportPath), { recursive: true });
+	writeFileSync(reportPath, serializeReport(report));
+}
@@ -0,0 +1,115 @@
+import type { Severity } from "../config.js";
+
+/**
+ * Why a check did not apply
+ */
+export type SkipReason =
+	/** The `when.path_exists` path does not exist */
+	| "path_exists_unmet"
+	/** No changed file matches `when.paths_changed` */
+	| "no_matching_files"
+	/** A `when` condition (branch, env, command_exists, file_contains, ...) does not hold */
+	| "condition_unmet"
+	/** Matching files changed, but none were edited in this session */
+	| "not_edited_in_session";
+
+/**
+ * Fields shared by every check result
+ */
+interface CheckResultBase {
+	/** Name of the check */
+	checkName: string;
+	/** Full path to the config file that defines the check */
+	configPath: string;
+	/** Changed files (relative to repo root) that triggered the check */
+	matchingFiles: string[];
+}
+
+/**
+ * Transcript events that decided a check's outcome
+ */
+export interface CheckEvidence {
+	/** Index of the last edit to a matching file */
+	lastEditIndex: number;
+	/** For each ensure_commands entry, the most recent run after the last edit */
+	commands?: {
+		command: string;
+		/** Index of the run, absent if the command was not run */
+		eventIndex?: number;
+		succeeded?: boolean;
+	}[];
+	/** For ensure_changed, the index of the edit that satisfied it */
+	changedIndex?: number;
+}
+
+/**
+ * A check whose requirements were all met
+ */
+export interface CheckPassed extends CheckResultBase {
+	status: "passed";
+	evidence?: CheckEvidence;
+}
+
+/**
+ * A check that did not apply to this session
+ */
+export interface CheckSkipped extends CheckResultBase {
+	status: "skipped";
+	reason: SkipReason;
+	/** For condition_unmet, the condition that does not hold */
+	detail?: string;
+}
+
+/**
+ * A check that failed, with everything the agent needs to fix it
+ */
+export interface CheckFailure extends CheckResultBase {
+	status: "failed";
+	/** The check's severity (absent means block) */
+	severity?: Severity;
+	/** ensure_commands that were not run after the last matching edit */
+	missingCommands?: string[];
+	/** ensure_commands whose most recent run did not succeed */
+	failedCommands?: string[];
+	/** ensure_changed paths of which none were edited */
+	missingChanges?: string[];
+	/** ensure_not_changed files (relative to config dir) that were edited directly */
+	forbiddenChanges?: string[];
+	/** ensure_file_contains files whose content does not match */
+	missingContent?: string[];
+	/** ensure_tool_used tool calls that were not made */
+	missingToolUses?: string[];
+	/** Missing commands rufio may run itself (check has `auto_run` enabled) */
+	autoRun?: {
+		commands: string[];
+		/** Directory to run the commands in (the config directory) */
+		cwd: string;
+		timeoutMs: number;
+	};
+	/** Output of failed commands rufio ran itself, which the agent has not seen */
+	commandOutputs?: string[];
+	/** Human-readable description of the failure */
+	message: string;
+	/** The check's guidance for fixing the failure */
+	hint?: string;
+	evidence?: CheckEvidence;
+}
+
+/**
+ * Outcome of evaluating a single check
+ */
+export type CheckResult = CheckPassed | CheckSkipped | CheckFailure;
+
+/**
+ * Narrows a result to a failure
+ */
+export function isFailure(result: CheckResult): result is CheckFailure {
+	return result.status === "failed";
+}
+
+/**
+ * Whether a failure blocks the session (re-prompts the agent)
+ */
+export function isBlocking(result: CheckResult): result is CheckFailure {
+	return isFailure(result) && (result.severity ?? "block") === "block";
+}
@@ -1,167 +1,546 @@
-import { existsSync } from "node:fs";
+import { existsSync, readFileSync, statSync } from "node:fs";
 import { join, relative, resolve } from "node:path";
 import { minimatch } from "minimatch";
-import type { Check, LoadedConfig } from "../config.js";
-import { groupFilesByConfig } from "../config.js";
+import type { Check, CommandPattern, EffectiveCheck, Then } from "../config.js";
+import { getEffectiveChecks, groupFilesByConfig } from "../config.js";
 import type { ToolEvent } from "../transcript.js";
-import { findLastEditIndex, wasCommandRunAfter } from "../transcript.js";
+import {
+	describeCommandPattern,
+	didSucceed,
+	findLastCommandRunAfter,
+	findLastEditIndex,
+	getEditedPaths,
+} from "../transcript.js";
+import {
+	type ChangeKind,
+	changedPaths,
+	type FileChange,
+} from "../vcs/backend.js";
+import { evaluateCondition } from "./conditions.js";
+import {
+	type CheckEvidence,
+	type CheckFailure,
+	type CheckResult,
+	type CheckSkipped,
+	isFailure,
+	type SkipReason,
+} from "./result.js";
 
 /**
- * Result of running checks
+ * Runs all checks from rufio.yaml configs for the given changed files.
+ *
+ * @param changedFiles - Changed files (relative to repo root); plain paths count as modified
+ * @param toolEvents - Tool events from the session transcript
+ * @param repoRoot - Absolute path to the repository root
+ * @returns Every failing check across all configs (empty if all pass)
  */
-interface CheckResult {
-	/** Error message if check failed, null if passed */
-	error: string | null;
-	/** Name of the check that failed (if any) */
-	checkName?: string;
+export function runChecks(
+	changedFiles: (string | FileChange)[],
+	toolEvents: ToolEvent[],
+	repoRoot: string,
+): CheckFailure[] {
+	return evaluateChecks(changedFiles, toolEvents, repoRoot).filter(isFailure);
 }
 
 /**
- * Runs all checks from rufio.yaml configs for the given changed files.
+ * Options for evaluating checks
+ */
+export interface EvaluateOptions {
+	/**
+	 * Called for each config that fails to load, whose files are then not checked.
+	 * Without it, the error is thrown.
+	 */
+	onConfigError?: (error: Error, files: string[]) => void;
+	/** Current branch for `branch` conditions; looked up with git when omitted */
+	branch?: string | null;
+}
+
+/**
+ * Evaluates all checks from rufio.yaml configs for the given changed files.
+ * Unlike runChecks, this also reports checks that passed or were skipped.
  *
- * @param changedFiles - List of changed files (relative to repo root)
+ * @param changedFiles - Changed files (relative to repo root); plain paths count as modified
  * @param toolEvents - Tool events from the session transcript
  * @param repoRoot - Absolute path to the repository root
- * @returns First error encountered, or null if all checks pass
+ * @returns The result of every check in every applicable config
  */
-export function runChecks(
-	changedFiles: string[],
+export function evaluateChecks(
+	changedFiles: (string | FileChange)[],
 	toolEvents: ToolEvent[],
 	repoRoot: string,
-): string | null {
+	options: EvaluateOptions = {},
+): CheckResult[] {
+	const { onConfigError, branch } = options;
+	const kinds = new Map(
+		changedPaths(
+			changedFiles.map((file) =>
+				typeof file === "string" ? { path: file, kind: "modified" } : file,
+			),
+		),
+	);
+
 	// Group files by their nearest config
-	const groups = groupFilesByConfig(changedFiles, repoRoot);
+	const groups = groupFilesByConfig([...kinds.keys()], repoRoot, onConfigError);
 
-	// Process each config
+	// Collect the files each check applies to. Inherited checks are shared by
+	// several configs, so they run once with the files of all of them.
+	const checks = new Map<
+		string,
+		{ effective: EffectiveCheck; files: string[] }
+	>();
 	for (const { loaded, files } of groups.values()) {
-		const result = runConfigChecks(loaded, files, toolEvents, repoRoot);
-		if (result.error) {
-			return result.error;
+		for (const effective of getEffectiveChecks(loaded)) {
+			const key = `${effective.configPath}#${effective.check.name}`;
+			const existing = checks.get(key);
+			if (existing) {
+				existing.files.push(...files);
+			} else {
+				checks.set(key, { effective, files: [...files] });
+			}
 		}
 	}
 
-	return null;
+	return [...checks.values()].map(({ effective, files }) =>
+		runSingleCheck(
+			effective.check,
+			effective,
+			files,
+			kinds,
+			toolEvents,
+			repoRoot,
+			branch,
+		),
+	);
+}
+
+/** Formats failures as a numbered list with their config and files */
+function formatItems(failures: CheckFailure[]): string {
+	return failures
+		.map((failure, i) =>
+			[
+				`${i + 1}. ${failure.message}`,
+				`   Config: ${failure.configPath}`,
+				`   Files: ${failure.matchingFiles.join(", ")}`,
+				...(failure.hint
+					? [
+							`   Hint: ${failure.hint.trimEnd().replaceAll("\n", "\n         ")}`,
+						]
+					: []),
+			].join("\n"),
+		)
+		.join("\n\n");
 }
 
 /**
- * Runs all checks from a single config against its relevant files.
+ * Formats failures as a single prompt listing everything left to do.
+ * Returns null if there are no failures.
  */
-function runConfigChecks(
-	loaded: LoadedConfig,
-	changedFiles: string[],
-	toolEvents: ToolEvent[],
-	repoRoot: string,
-): CheckResult {
-	for (const check of loaded.config.checks) {
-		const result = runSingleCheck(
-			check,
-			loaded,
-			changedFiles,
-			toolEvents,
-			repoRoot,
-		);
-		if (result.error) {
-			return result;
-		}
+export function formatFailures(failures: CheckFailure[]): string | null {
+	if (failures.length === 0) {
+		return null;
+	}
+
+	const noun = failures.length === 1 ? "check" : "checks";
+	return `Rufio found ${failures.length} failing ${noun}. Address all of them before stopping:\n\n${formatItems(failures)}`;
+}
+
+/**
+ * Formats non-blocking failures as a note for the session.
+ * Returns null if there are no failures.
+ */
+export function formatWarnings(failures: CheckFailure[]): string | null {
+	if (failures.length === 0) {
+		return null;
 	}
 
-	return { error: null };
+	const noun = failures.length === 1 ? "check" : "checks";
+	return `Rufio found ${failures.length} failing ${noun} that ${failures.length === 1 ? "does" : "do"} not block stopping:\n\n${formatItems(failures)}`;
+}
+
+/**
+ * Creates a matcher for the files a check applies to.
+ * A file matches if it is inside the config directory, matches any plain
+ * `paths_changed` pattern, and matches neither a `!` pattern nor `paths_ignored`.
+ *
+ * @returns Matcher taking an absolute path (tool event paths may be absolute)
+ */
+export function createPathMatcher(
+	when: Pick<Check["when"], "paths_changed" | "paths_ignored">,
+	configDir: string,
+): (path: string) => boolean {
+	const patterns = [when.paths_changed].flat();
+	const included = patterns.filter((p) => !p.startsWith("!"));
+	const excluded = [
+		...patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1)),
+		...[when.paths_ignored ?? []].flat(),
+	];
+
+	return (path: string): boolean => {
+		const relativeToConfig = relative(configDir, path);
+		// Skip files outside the config directory
+		if (relativeToConfig.startsWith("..")) {
+			return false;
+		}
+		return (
+			included.some((p) => minimatch(relativeToConfig, p)) &&
+			!excluded.some((p) => minimatch(relativeToConfig, p))
+		);
+	};
+}
+
+/** Describes a check's trigger patterns for messages */
+function describePaths(when: Check["when"]): string {
+	return [when.paths_changed].flat().join(", ");
 }
 
 /**
  * Runs a single check against the changed files.
+ *
+ * @param kinds - How each changed file changed
+ * @param branch - Current branch, if known
  */
 function runSingleCheck(
 	check: Check,
-	loaded: LoadedConfig,
+	source: Pick<EffectiveCheck, "configDir" | "configPath">,
 	changedFiles: string[],
+	kinds: Map<string, ChangeKind>,
 	toolEvents: ToolEvent[],
 	repoRoot: string,
+	branch?: string | null,
 ): CheckResult {
-	const { configDir } = loaded;
+	const { configDir, configPath } = source;
+	const skip = (
+		reason: SkipReason,
+		matchingFiles: string[] = [],
+		detail?: string,
+	): CheckSkipped => ({
+		status: "skipped",
+		checkName: check.name,
+		configPath,
+		matchingFiles,
+		reason,
+		detail,
+	});
 
 	// Check path_exists condition first
 	if (check.when.path_exists) {
 		const requiredPath = join(configDir, check.when.path_exists);
 		if (!existsSync(requiredPath)) {
 			// Condition not met, skip this check
-			return { error: null };
+			return skip("path_exists_unmet");
 		}
 	}
 
-	// Find files that match the glob (relative to config dir)
-	const matchingFiles = changedFiles.filter((file) => {
-		// Convert to path relative to config dir
-		const absoluteFile = join(repoRoot, file);
-		const relativeToConfig = relative(configDir, absoluteFile);
-
-		// Skip files outside the config directory
-		if (relativeToConfig.startsWith("..")) {
-			return false;
-		}
-
-		return minimatch(relativeToConfig, check.when.paths_changed);
-	});
+	// Find files that match the globs (relative to config dir) and change kinds
+	const globMatcher = createPathMatcher(check.when, configDir);
+	const changeKinds = check.when.change_kinds;
+	const matchingFiles = changedFiles.filter(
+		(file) =>
+			globMatcher(join(repoRoot, file)) &&
+			(!changeKinds || changeKinds.includes(kinds.get(file) ?? "modified")),
+	);
 
 	if (matchingFiles.length === 0) {
 		// No matching files, check doesn't apply
-		return { error: null };
+		return skip("no_matching_files");
 	}
 
-	// Create a matcher for the glob pattern
-	const globMatcher = (path: string): boolean => {
-		// Path from tool events might be absolute
-		const relativeToConfig = relative(configDir, path);
-		if (relativeToConfig.startsWith("..")) {
-			return false;
-		}
-		return minimatch(relativeToConfig, check.when.paths_changed);
-	};
+	// Check the remaining conditions (branch, env, file content, ...)
+	const unmet = evaluateCondition(check.when, {
+		configDir,
+		matchingFiles: matchingFiles.map((file) => join(repoRoot, file)),
+		branch,
+	});
+	if (unmet) {
+		return skip("condition_unmet", matchingFiles, unmet);
+	}
 
 	// Find the last edit to a matching file
 	const lastEditIndex = findLastEditIndex(toolEvents, globMatcher);
 
 	// If no matching file was edited in this session, skip the check
 	if (lastEditIndex === -1) {
-		return { error: null };
+		return skip("not_edited_in_session", matchingFiles);
+	}
+
+	// Evaluate every requirement; a list of 'then' entries is evaluated together
+	const context = { checkName: check.name, configPath, matchingFiles };
+	const evidence: CheckEvidence = { lastEditIndex };
+	const failures: (CheckFailure | null)[] = [];
+	for (const then of [check.then].flat()) {
+		if (then.ensure_commands) {
+			failures.push(
+				checkCommands(
+					check,
+					then,
+					toolEvents,
+					lastEditIndex,
+					configDir,
+					context,
+					evidence,
+				),
+			);
+		}
+		if (then.ensure_changed) {
+			failures.push(
+				checkEnsureChanged(
+					check,
+					then,
+					toolEvents,
+					configDir,
+					context,
+					evidence,
+				),
+			);
+		}
+		if (then.ensure_not_changed) {
+			failures.push(
+				checkEnsureNotChanged(check, then, toolEvents, configDir, context),
+			);
+		}
+		if (then.ensure_file_contains) {
+			failures.push(checkFileContains(check, then, configDir, context));
+		}
+		if (then.ensure_tool_used) {
+			failures.push(
+				checkToolUsed(check, then, toolEvents, globMatcher, configDir, context),
+			);
+		}
 	}
 
-	// Run the appropriate check based on 'then' type
-	if (check.then.ensure_commands) {
-		return checkCommands(check, toolEvents, lastEditIndex);
+	const failure = mergeFailures(
+		failures.filter((f): f is CheckFailure => f !== null),
+	);
+	if (failure) {
+		const message = check.message
+			? renderMessage(check.message, failure, check, configDir)
+			: failure.message;
+		return {
+			...failure,
+			message: [message, ...(failure.commandOutputs ?? [])].join("\n"),
+			...(check.hint ? { hint: check.hint } : {}),
+			severity: check.severity ?? "block",
+			evidence,
+		};
 	}
+	return { status: "passed", ...context, evidence };
+}
+
+/**
+ * Fills in the placeholders of a check's message template.
+ * Lists are joined with commas; unknown placeholders are left as they are.
+ */
+function renderMessage(
+	template: string,
+	failure: CheckFailure,
+	check: Check,
+	configDir: string,
+): string {
+	const variables: Record<string, string | string[] | undefined> = {
+		check: check.name,
+		message: failure.message,
+		files: failure.matchingFiles,
+		paths: describePaths(check.when),
+		config_dir: configDir,
+		missing_commands: failure.missingCommands,
+		failed_commands: failure.failedCommands,
+		missing_changes: failure.missingChanges,
+		forbidden_changes: failure.forbiddenChanges,
+		missing_content: failure.missingContent,
+		missing_tools: failure.missingToolUses,
+	};
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		Object.hasOwn(variables, name)
+			? [variables[name] ?? []].flat().join(", ")
+			: placeholder,
+	);
+}
 
-	if (check.then.ensure_changed) {
-		return checkEnsureChanged(check, toolEvents, configDir);
+/**
+ * Combines the failures of a check's requirements into one failure
+ */
+function mergeFailures(failures: CheckFailure[]): CheckFailure | null {
+	if (failures.length <= 1) {
+		return failures[0] ?? null;
 	}
 
-	return { error: null };
+	const [first] = failures;
+	const merged: CheckFailure = {
+		status: "failed",
+		checkName: first.checkName,
+		configPath: first.configPath,
+		matchingFiles: first.matchingFiles,
+		message: failures.map((f) => f.message).join("\n"),
+	};
+	const lists = [
+		"missingCommands",
+		"failedCommands",
+		"missingChanges",
+		"forbiddenChanges",
+		"missingContent",
+		"missingToolUses",
+		"commandOutputs",
+	] as const;
+	for (const key of lists) {
+		const values = failures.flatMap((f) => f[key] ?? []);
+		if (values.length > 0) {
+			merged[key] = values;
+		}
+	}
+	const autoRuns = failures.flatMap((f) => (f.autoRun ? [f.autoRun] : []));
+	if (autoRuns.length > 0) {
+		merged.autoRun = {
+			commands: autoRuns.flatMap((a) => a.commands),
+			cwd: autoRuns[0].cwd,
+			timeoutMs: Math.max(...autoRuns.map((a) => a.timeoutMs)),
+		};
+	}
+	return merged;
 }
 
+/** Identifies the check and files a failure belongs to */
+type FailureContext = Pick<
+	CheckFailure,
+	"checkName" | "configPath" | "matchingFiles"
+>;
+
 /**
  * Checks that all required commands were run after the last edit.
+ * Unless `require_success` is disabled, the most recent run of each command must have succeeded.
  */
 function checkCommands(
 	check: Check,
+	then: Then,
 	toolEvents: ToolEvent[],
 	lastEditIndex: number,
-): CheckResult {
-	const commands = check.then.ensure_commands ?? [];
+	configDir: string,
+	context: FailureContext,
+	evidence: CheckEvidence,
+): CheckFailure | null {
+	const commands = then.ensure_commands ?? [];
+	const requireSuccess = then.require_success ?? true;
 	const missingCommands: string[] = [];
+	const failedCommands: string[] = [];
+	const autoRunOutputs: string[] = [];
+	const runnableCommands: string[] = [];
+	evidence.commands ??= [];
 
-	for (const command of commands) {
-		// Check if command was run after last edit (substring match)
-		if (!wasCommandRunAfter(toolEvents, [command], lastEditIndex)) {
+	for (const pattern of commands) {
+		const command = describeCommandPattern(pattern);
+		// Find the latest run of the command after the last edit
+		const run = findLastCommandRunAfter(
+			toolEvents,
+			[pattern],
+			lastEditIndex,
+			then.require_cwd ? configDir : undefined,
+		);
+		evidence.commands.push({
+			command,
+			eventIndex: run?.index,
+			succeeded: run ? didSucceed(run) : undefined,
+		});
+		if (!run) {
 			missingCommands.push(command);
+			const runnable = runnableCommand(pattern);
+			if (runnable) {
+				runnableCommands.push(runnable);
+			}
+		} else if (requireSuccess && !didSucceed(run)) {
+			failedCommands.push(`${command} (${describeFailure(run)})`);
+			// The agent never saw the output of commands rufio ran itself
+			if (run.autoRun && run.output) {
+				autoRunOutputs.push(
+					`Output of \`${command}\` (run by rufio):\n${tailLines(run.output)}`,
+				);
+			}
 		}
 	}
 
+	const location = then.require_cwd
+		? ` in ${configDir} (or a parent directory)`
+		: "";
+	const errors: string[] = [];
 	if (missingCommands.length > 0) {
-		const error = `Check '${check.name}' failed: these commands must run after editing ${check.when.paths_changed}: ${missingCommands.join(", ")}`;
-		return { error, checkName: check.name };
+		errors.push(
+			`Check '${check.name}' failed: these commands must run${location} after editing ${describePaths(check.when)}: ${missingCommands.join(", ")}`,
+		);
+	}
+	if (failedCommands.length > 0) {
+		errors.push(
+			`Check '${check.name}' failed: these commands failed after editing ${describePaths(check.when)} and must pass: ${failedCommands.join(", ")}`,
+		);
+	}
+
+	if (errors.length === 0) {
+		return null;
 	}
 
-	return { error: null };
+	const failure: CheckFailure = {
+		status: "failed",
+		...context,
+		message: errors.join("\n"),
+	};
+	if (missingCommands.length > 0) {
+		failure.missingCommands = missingCommands;
+	}
+	if (failedCommands.length > 0) {
+		failure.failedCommands = failedCommands;
+	}
+	if (autoRunOutputs.length > 0) {
+		failure.commandOutputs = autoRunOutputs;
+	}
+	if (then.auto_run && runnableCommands.length > 0) {
+		failure.autoRun = {
+			commands: runnableCommands,
+			cwd: configDir,
+			timeoutMs: (then.auto_run_timeout ?? 300) * 1000,
+		};
+	}
+	return failure;
+}
+
+/**
+ * Returns a concrete command that satisfies a pattern, if there is one.
+ * Regex patterns cannot be run; for any_of, the first runnable alternative is used.
+ */
+function runnableCommand(pattern: CommandPattern): string | null {
+	if (typeof pattern === "string") {
+		return pattern;
+	}
+	if ("exact" in pattern) {
+		return pattern.exact;
+	}
+	if ("any_of" in pattern) {
+		for (const alternative of pattern.any_of) {
+			const runnable = runnableCommand(alternative);
+			if (runnable) {
+				return runnable;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Returns the last lines of command output
+ */
+function tailLines(output: string, maxLines = 30): string {
+	const lines = output.trimEnd().split("\n");
+	const tail = lines.slice(-maxLines).join("\n");
+	return lines.length > maxLines ? `...\n${tail}` : tail;
+}
+
+/**
+ * Describes why a command run did not succeed
+ */
+function describeFailure(event: ToolEvent): string {
+	if (event.status === "running") {
+		return "still running";
+	}
+	if (event.exitCode !== undefined) {
+		return `exit code ${event.exitCode}`;
+	}
+	return "errored";
 }
 
 /**
@@ -169,29 +548,130 @@ function checkCommands(
  */
 function checkEnsureChanged(
 	check: Check,
+	then: Then,
 	toolEvents: ToolEvent[],
 	configDir: string,
-): CheckResult {
-	const paths = check.then.ensure_changed ?? [];
+	context: FailureContext,
+	evidence: CheckEvidence,
+): CheckFailure | null {
+	const paths = then.ensure_changed ?? [];
+	const absoluteRequired = new Set(paths.map((p) => resolve(configDir, p)));
 
 	// Check if any of the required paths were edited
-	const editedPaths = toolEvents
-		.filter((e) => e.toolName === "Edit" || e.toolName === "Write")
-		.map((e) => e.filePath)
-		.filter(Boolean) as string[];
-
-	for (const requiredPath of paths) {
-		const absoluteRequired = resolve(configDir, requiredPath);
-
-		for (const editedPath of editedPaths) {
-			// Normalize paths for comparison
-			const normalizedEdited = resolve(editedPath);
-			if (normalizedEdited === absoluteRequired) {
-				return { error: null };
+	for (const event of toolEvents) {
+		// Normalize paths for comparison
+		if (getEditedPaths(event).some((p) => absoluteRequired.has(resolve(p)))) {
+			evidence.changedIndex = event.index;
+			return null;
+		}
+	}
+
+	const message = `Check '${check.name}' failed: one of these files must be changed when editing ${describePaths(check.when)}: ${paths.join(", ")}`;
+	return { status: "failed", ...context, missingChanges: paths, message };
+}
+
+/**
+ * Checks that no protected file was edited directly.
+ * Edits attributed to commands (e.g. a lockfile updated by `pnpm install`) are allowed.
+ */
+function checkEnsureNotChanged(
+	check: Check,
+	then: Then,
+	toolEvents: ToolEvent[],
+	configDir: string,
+	context: FailureContext,
+): CheckFailure | null {
+	const protectedMatcher = createPathMatcher(
+		{ paths_changed: then.ensure_not_changed ?? [] },
+		configDir,
+	);
+	const edited = new Set<string>();
+	for (const event of toolEvents) {
+		if (event.attributedTo) {
+			continue;
+		}
+		for (const path of getEditedPaths(event)) {
+			if (protectedMatcher(resolve(path))) {
+				edited.add(relative(configDir, resolve(path)));
 			}
 		}
 	}
 
-	const error = `Check '${check.name}' failed: one of these files must be changed when editing ${check.when.paths_changed}: ${paths.join(", ")}`;
-	return { error, checkName: check.name };
+	if (edited.size === 0) {
+		return null;
+	}
+	const forbiddenChanges = [...edited].sort();
+	const message = `Check '${check.name}' failed: these files must not be edited directly, revert the edits: ${forbiddenChanges.join(", ")}`;
+	return { status: "failed", ...context, forbiddenChanges, message };
+}
+
+/**
+ * Checks that each required file's current content matches its regex.
+ */
+function checkFileContains(
+	check: Check,
+	then: Then,
+	configDir: string,
+	context: FailureContext,
+): CheckFailure | null {
+	const missingContent: string[] = [];
+	for (const { path, regex } of then.ensure_file_contains ?? []) {
+		const absolutePath = join(configDir, path);
+		// A directory (e.g. a submodule) has no content to match
+		const content = statSync(absolutePath, { throwIfNoEntry: false })?.isFile()
+			? readFileSync(absolutePath, "utf-8")
+			: null;
+		if (content === null || !new RegExp(regex, "m").test(content)) {
+			missingContent.push(`${path} (/${regex}/)`);
+		}
+	}
+
+	if (missingContent.length === 0) {
+		return null;
+	}
+	const message = `Check '${check.name}' failed: these files must match when editing ${describePaths(check.when)}: ${missingContent.join(", ")}`;
+	return { status: "failed", ...context, missingContent, message };
+}
+
+/**
+ * Checks that each required tool was used this session, on a matching file if
+ * given, and before the first matching edit if `before_edit` is set.
+ */
+function checkToolUsed(
+	check: Check,
+	then: Then,
+	toolEvents: ToolEvent[],
+	globMatcher: (path: string) => boolean,
+	configDir: string,
+	context: FailureContext,
+): CheckFailure | null {
+	const firstEdit = toolEvents.find((event) =>
+		getEditedPaths(event).some(globMatcher),
+	);
+	const normalize = (tool: string) => tool.toLowerCase().replace(/^mcp_/, "");
+
+	const missingToolUses: string[] = [];
+	for (const use of then.ensure_tool_used ?? []) {
+		const pathMatcher = use.path
+			? createPathMatcher({ paths_changed: use.path }, configDir)
+			: undefined;
+		const used = toolEvents.some(
+			(event) =>
+				normalize(event.toolName) === normalize(use.tool) &&
+				(!pathMatcher ||
+					(event.filePaths ?? []).some((p) => pathMatcher(resolve(p)))) &&
+				(!use.before_edit || !firstEdit || event.index < firstEdit.index),
+		);
+		if (!used) {
+			missingToolUses.push(
+				`${use.tool}${use.path ? ` ${use.path}` : ""}${use.before_edit ? " (before editing)" : ""}`,
+			);
+		}
+	}
+
+	if (missingToolUses.length === 0) {
+		return null;
+	}
+	const message = `Check '${check.name}' failed: these tools must be used when editing ${describePaths(check.when)}: ${missingToolUses.join(", ")}`;
+	return { status: "failed", ...context, missingToolUses, message };
 }
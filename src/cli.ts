@@ -0,0 +1,315 @@
+import { execFileSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { basename, dirname, join, relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { type CheckResult, isBlocking } from "./checks/result.js";
+import { createPathMatcher, evaluateChecks } from "./checks/runner.js";
+import {
+	findNearestConfig,
+	getEffectiveChecks,
+	type LoadedConfig,
+	loadSessionConfig,
+	type Severity,
+	validateConfigFile,
+} from "./config.js";
+import {
+	extractToolEvents,
+	type MessageWithParts,
+	type ToolEvent,
+} from "./transcript.js";
+import type { FileChange } from "./vcs/backend.js";
+import { parsePorcelainV2 } from "./vcs/git.js";
+
+const USAGE = `Usage:
+  rufio check --transcript <session.json> [--repo <dir>] [--changed <file>]... [--json]
+  rufio explain <check-name> --transcript <session.json> [--repo <dir>] [--changed <file>]...
+  rufio validate [<file>...] [--repo <dir>] [--preset]
+  rufio config <file>... [--repo <dir>]
+
+Options:
+  --transcript  Session exported with \`opencode export\` (or a JSON array of messages)
+  --repo        Repository root (default: current directory)
+  --changed     Changed file relative to the repo root (default: from git status)
+  --json        Print results as JSON
+  --preset      Validate files as presets (default for files in a 'presets' directory)
+
+\`rufio config\` lists the checks that apply to each file (relative to the repo root),
+including checks inherited from parent configs.
+`;
+
+/**
+ * Loads session messages from an exported session file.
+ * Accepts `{ messages: [...] }` as written by `opencode export`, or a bare array.
+ */
+export function loadTranscript(path: string): MessageWithParts[] {
+	const parsed = JSON.parse(readFileSync(path, "utf-8")) as
+		| MessageWithParts[]
+		| { messages?: MessageWithParts[] };
+	const messages = Array.isArray(parsed) ? parsed : parsed.messages;
+	if (!Array.isArray(messages)) {
+		throw new Error(`${path}: expected a session export with 'messages'`);
+	}
+	return messages;
+}
+
+/**
+ * Lists changed files in a repository using git status.
+ */
+function gitChangedFiles(repo: string): FileChange[] {
+	const output = execFileSync(
+		"git",
+		["status", "--porcelain=v2", "-z", "-uall"],
+		{ cwd: repo, encoding: "utf-8" },
+	);
+	return parsePorcelainV2(output);
+}
+
+/** Describes a transcript event in one line */
+function describeEvent(event: ToolEvent | undefined): string {
+	if (!event) {
+		return "(not in transcript)";
+	}
+	const detail =
+		event.command ?? event.filePaths?.join(", ") ?? event.filePath ?? "";
+	const exit = event.exitCode !== undefined ? ` (exit ${event.exitCode})` : "";
+	return `#${event.index} ${event.toolName} ${detail}${exit}`.trimEnd();
+}
+
+/** Verdict label of a failure by severity */
+const FAILURE_LABELS: Record<Severity, string> = {
+	block: "FAIL",
+	warn: "WARN",
+	info: "INFO",
+};
+
+/** Formats a result as a single verdict line */
+function formatVerdict(result: CheckResult, repo: string): string {
+	const config = relative(repo, result.configPath) || result.configPath;
+	switch (result.status) {
+		case "passed":
+			return `PASS ${result.checkName} (${config})`;
+		case "skipped":
+			return `SKIP ${result.checkName} (${config}): ${result.reason}${result.detail ? ` (${result.detail})` : ""}`;
+		case "failed":
+			return `${FAILURE_LABELS[result.severity ?? "block"]} ${result.checkName} (${config}): ${result.message}`;
+	}
+}
+
+/** Explains how a result was reached, event by event */
+function formatExplanation(
+	result: CheckResult,
+	events: ToolEvent[],
+	repo: string,
+): string {
+	const lines = [formatVerdict(result, repo)];
+	lines.push(
+		`  matching files: ${result.matchingFiles.join(", ") || "(none)"}`,
+	);
+	if (result.status === "failed" && result.hint) {
+		lines.push(`  hint: ${result.hint.trimEnd()}`);
+	}
+
+	const evidence = result.status === "skipped" ? undefined : result.evidence;
+	if (evidence) {
+		lines.push(
+			`  last matching edit: ${describeEvent(events[evidence.lastEditIndex])}`,
+		);
+		for (const command of evidence.commands ?? []) {
+			const verdict =
+				command.eventIndex === undefined
+					? "not run"
+					: command.succeeded
+						? "succeeded"
+						: "failed";
+			const run =
+				command.eventIndex === undefined
+					? ""
+					: `: ${describeEvent(events[command.eventIndex])}`;
+			lines.push(`  ${command.command}: ${verdict}${run}`);
+		}
+		if (evidence.changedIndex !== undefined) {
+			lines.push(
+				`  changed by: ${describeEvent(events[evidence.changedIndex])}`,
+			);
+		}
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Validates config and preset files, printing every problem found.
+ * Defaults to the config at the root of the repo.
+ */
+function runValidate(
+	files: string[],
+	repo: string,
+	preset: boolean,
+	write: (text: string) => void,
+): number {
+	const paths =
+		files.length > 0
+			? files.map((file) => resolve(file))
+			: [join(repo, "rufio-hooks.yaml")];
+
+	let failed = false;
+	for (const path of paths) {
+		const display = relative(process.cwd(), path) || path;
+		const kind =
+			preset || basename(dirname(path)) === "presets" ? "preset" : "config";
+		let problems: string[];
+		try {
+			problems = validateConfigFile(path, kind);
+		} catch (e) {
+			problems = [`${display}: ${e instanceof Error ? e.message : String(e)}`];
+		}
+		if (problems.length === 0) {
+			write(`OK ${display}\n`);
+		} else {
+			failed = true;
+			write(`${problems.map((p) => p.replace(path, display)).join("\n")}\n`);
+		}
+	}
+	return failed ? 1 : 0;
+}
+
+/**
+ * Lists the effective checks for files and whether each file matches their paths.
+ * @throws Error if a config cannot be loaded
+ */
+function runConfig(
+	files: string[],
+	repo: string,
+	write: (text: string) => void,
+): void {
+	for (const file of files) {
+		const path = resolve(repo, file);
+		const loaded = findNearestConfig(path, repo);
+		if (!loaded) {
+			write(`${file}: no config applies\n`);
+			continue;
+		}
+
+		const chain: string[] = [];
+		for (let c: LoadedConfig | undefined = loaded; c; c = c.parent) {
+			chain.push(relative(repo, c.configPath) || c.configPath);
+		}
+		const lines = [`${file} (${chain.join(" <- ")})`];
+		for (const { check, configDir, configPath } of getEffectiveChecks(loaded)) {
+			const config = relative(repo, configPath) || configPath;
+			lines.push(
+				createPathMatcher(check.when, configDir)(path)
+					? `  MATCH ${check.name} (${config})`
+					: `  SKIP ${check.name} (${config}): no_matching_files`,
+			);
+		}
+		write(`${lines.join("\n")}\n`);
+	}
+}
+
+/**
+ * Runs the CLI and returns the process exit code.
+ * Exit code 1 means a blocking check failed or a file is invalid; 2 means a usage or input error.
+ */
+export function runCli(
+	argv: string[],
+	write: (text: string) => void = (text) => process.stdout.write(text),
+): number {
+	let parsed: ReturnType<typeof parseCliArgs>;
+	try {
+		parsed = parseCliArgs(argv);
+	} catch (e) {
+		write(`${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+		return 2;
+	}
+	const { values, positionals } = parsed;
+	const [command, checkName] = positionals;
+
+	if (values.help || !command) {
+		write(USAGE);
+		return values.help ? 0 : 2;
+	}
+	if (command === "validate") {
+		return runValidate(
+			positionals.slice(1),
+			resolve(values.repo ?? "."),
+			values.preset ?? false,
+			write,
+		);
+	}
+	if (command === "config") {
+		const files = positionals.slice(1);
+		if (files.length === 0) {
+			write(`Missing file\n\n${USAGE}`);
+			return 2;
+		}
+		try {
+			runConfig(files, resolve(values.repo ?? "."), write);
+			return 0;
+		} catch (e) {
+			write(`${e instanceof Error ? e.message : String(e)}\n`);
+			return 2;
+		}
+	}
+	if (command !== "check" && command !== "explain") {
+		write(`Unknown command '${command}'\n\n${USAGE}`);
+		return 2;
+	}
+	if (!values.transcript) {
+		write(`Missing --transcript\n\n${USAGE}`);
+		return 2;
+	}
+	if (command === "explain" && !checkName) {
+		write(`Missing check name\n\n${USAGE}`);
+		return 2;
+	}
+
+	try {
+		const repo = resolve(values.repo ?? ".");
+		const aliases = loadSessionConfig(repo)?.config.tools?.aliases;
+		const events = extractToolEvents(
+			loadTranscript(values.transcript),
+			aliases,
+		);
+		const changedFiles = values.changed ?? gitChangedFiles(repo);
+		const results = evaluateChecks(changedFiles, events, repo);
+
+		if (command === "explain") {
+			const matching = results.filter((r) => r.checkName === checkName);
+			if (matching.length === 0) {
+				write(`No check named '${checkName}' applies to the changed files\n`);
+				return 2;
+			}
+			write(
+				`${matching.map((r) => formatExplanation(r, events, repo)).join("\n\n")}\n`,
+			);
+			return matching.some(isBlocking) ? 1 : 0;
+		}
+
+		if (values.json) {
+			write(`${JSON.stringify(results, null, 2)}\n`);
+		} else if (results.length === 0) {
+			write("No checks apply to the changed files\n");
+		} else {
+			write(`${results.map((r) => formatVerdict(r, repo)).join("\n")}\n`);
+		}
+		return results.some(isBlocking) ? 1 : 0;
+	} catch (e) {
+		write(`${e instanceof Error ? e.message : String(e)}\n`);
+		return 2;
+	}
+}
+
+function parseCliArgs(argv: string[]) {
+	return parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			transcript: { type: "string" },
+			repo: { type: "string" },
+			changed: { type: "string", multiple: true },
+			json: { type: "boolean" },
+			preset: { type: "boolean" },
+			help: { type: "boolean", short: "h" },
+		},
+	});
+}
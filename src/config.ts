@@ -1,48 +1,249 @@
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync, readFileSync, statSync } from "node:fs";
 import { homedir } from "node:os";
 import { dirname, join, resolve } from "node:path";
-import { parse } from "yaml";
+import { BUILTIN_PRESETS } from "./presets.js";
+import { formatIssue, parseAndValidate, type SchemaKind } from "./validate.js";
+import type { ChangeKind } from "./vcs/backend.js";
+import type { VcsSetting } from "./vcs/detect.js";
 
 /**
- * Conditions that trigger a check
+ * A condition on the environment a check runs in.
+ * Every key that is set must hold; use `any` for alternatives.
  */
-interface When {
-	/** Glob pattern for files that trigger this check (relative to config dir) */
-	paths_changed: string;
-	/** Optional: check only applies if this path exists (relative to config dir) */
+export interface Condition {
+	/** Path that must exist (relative to config dir) */
 	path_exists?: string;
+	/** Glob patterns for the current git branch name */
+	branch?: string | string[];
+	/** Variable that must be set and non-empty, or variables that must equal the given values */
+	env?: string | Record<string, string>;
+	/** Program that must be found on PATH */
+	command_exists?: string;
+	/** Regex that the content of at least one matching changed file must match */
+	file_contains?: string;
+	/** Conditions that must all hold */
+	all?: Condition[];
+	/** Conditions of which at least one must hold */
+	any?: Condition[];
+	/** Condition that must not hold */
+	not?: Condition;
+}
+
+/**
+ * Conditions that trigger a check
+ */
+interface When extends Condition {
+	/**
+	 * Glob patterns for files that trigger this check (relative to config dir).
+	 * Patterns prefixed with `!` exclude files matched by the others.
+	 */
+	paths_changed: string | string[];
+	/** Glob patterns for files that never trigger this check (relative to config dir) */
+	paths_ignored?: string | string[];
+	/** Only files changed in one of these ways trigger this check (default: any) */
+	change_kinds?: ChangeKind[];
 }
 
 /**
- * Actions required when check triggers - mutually exclusive
+ * How an ensure_commands entry matches Bash commands.
+ * A plain string matches as a substring of the whole command; the object forms
+ * match each segment of a compound command (`a && b`, `a; b`, `a | b`) separately.
  */
-interface Then {
+export type CommandPattern =
+	| string
+	| { regex: string }
+	| { exact: string }
+	| { any_of: CommandPattern[] };
+
+/**
+ * A file whose content must match a regex
+ */
+export interface FileContains {
+	/** File path (relative to config dir) */
+	path: string;
+	/** Regex the file content must match (multiline, so `^` matches each line) */
+	regex: string;
+}
+
+/**
+ * A tool call the agent must have made
+ */
+export interface ToolUse {
+	/** Tool name, e.g. `read` (case-insensitive) */
+	tool: string;
+	/** Glob for the file the tool must have touched (relative to config dir) */
+	path?: string;
+	/** The call must precede the first edit to a matching file (default: false) */
+	before_edit?: boolean;
+}
+
+/**
+ * A group of requirements for a triggered check.
+ * Every requirement that is set must hold.
+ */
+export interface Then {
 	/** Commands that must ALL run after the last matching edit */
-	ensure_commands?: string[];
+	ensure_commands?: CommandPattern[];
+	/** Commands must have exited successfully, not just run (default: true) */
+	require_success?: boolean;
+	/** Commands must have run in the config directory or one of its ancestors (default: false) */
+	require_cwd?: boolean;
+	/** Run missing commands automatically in the config directory instead of prompting */
+	auto_run?: boolean;
+	/** Timeout in seconds for each automatically run command (default: 300) */
+	auto_run_timeout?: number;
 	/** At least one of these paths must have been edited this session */
 	ensure_changed?: string[];
+	/** Globs for files that must not be edited directly (relative to config dir); changes made by commands are allowed */
+	ensure_not_changed?: string[];
+	/** Files whose content must match a regex */
+	ensure_file_contains?: FileContains[];
+	/** Tool calls the agent must have made this session */
+	ensure_tool_used?: ToolUse[];
 }
 
+/**
+ * What happens when a check fails:
+ * `block` re-prompts the agent, `warn` shows a toast and adds a note to the
+ * session without re-prompting, `info` only logs.
+ */
+export type Severity = "block" | "warn" | "info";
+
 /**
  * A single check definition
  */
 export interface Check {
 	/** Name of the check (for error messages) */
 	name: string;
+	/** What happens when the check fails (default: block) */
+	severity?: Severity;
 	/** Conditions that trigger this check */
 	when: When;
-	/** Required actions */
-	then: Then;
+	/** Required actions; a list is evaluated together, like a single entry with all of their keys */
+	then: Then | Then[];
+	/**
+	 * Failure message template replacing the default one. Supports {check}, {message} (the default message),
+	 * {files}, {paths}, {config_dir}, {missing_commands}, {failed_commands}, {missing_changes},
+	 * {forbidden_changes}, {missing_content} and {missing_tools} placeholders.
+	 */
+	message?: string;
+	/** Guidance for fixing a failure, shown to the agent below the message */
+	hint?: string;
+}
+
+/**
+ * A rule that denies tool calls before they run
+ */
+export interface Guard {
+	/** Name of the guard (for denial messages) */
+	name: string;
+	/** Globs (relative to the config directory) of files that must not be edited or written; `!` excludes */
+	deny_edits?: string | string[];
+	/** Bash commands that must not run */
+	deny_commands?: CommandPattern[];
+	/** Why the call is denied, told to the agent */
+	reason?: string;
+}
+
+/**
+ * Zellij tab status settings
+ */
+export interface StatusConfig {
+	/** Tab name template; supports {status} and {project} placeholders */
+	tab_format?: string;
+	/** Labels substituted for {status} in each session state */
+	labels?: {
+		working?: string;
+		idle?: string;
+		failed?: string;
+		permission?: string;
+	};
+}
+
+/**
+ * JSON check report settings
+ */
+export interface ReportConfig {
+	/** Report file path relative to the session directory; supports {sessionID} */
+	path: string;
+}
+
+/**
+ * Limits on re-prompting for checks that keep failing
+ */
+export interface LoopProtectionConfig {
+	/** Re-prompts for the same set of failing checks before giving up (default: 5) */
+	max_retries?: number;
+	/** Show a TUI toast asking the user to step in when giving up (default: true) */
+	toast?: boolean;
+}
+
+/**
+ * Transcript tool settings
+ */
+export interface ToolsConfig {
+	/** Extra tool names mapped to known tools, e.g. `fs_write_file: write` */
+	aliases?: Record<string, string>;
+}
+
+/**
+ * Value of a preset parameter
+ */
+export type PresetParam = string | number | boolean;
+
+/**
+ * A preset to include: its name, or its name and parameters
+ */
+export type PresetRef =
+	| string
+	| {
+			name: string;
+			/** Values for `${param}` placeholders in the preset */
+			with?: Record<string, PresetParam>;
+	  };
+
+/**
+ * Raw preset file structure (as parsed from YAML)
+ */
+interface PresetRaw {
+	/** Other presets to include */
+	presets?: PresetRef[];
+	/** Default values for the preset's parameters */
+	params?: Record<string, PresetParam>;
+	/** Check definitions; a check named like an included one replaces it */
+	checks?: Check[];
+	/** Names of included checks to drop */
+	disable_checks?: string[];
 }
 
 /**
  * Raw configuration structure (as parsed from YAML)
  */
 interface RufioConfigRaw {
-	/** Built-in preset names to include */
-	presets?: string[];
-	/** Custom check definitions */
+	/** Inherit the checks of the nearest config in a parent directory */
+	inherit?: boolean;
+	/** Config (or directory containing one) to inherit checks from, relative to this file */
+	extends?: string;
+	/** Presets to include */
+	presets?: PresetRef[];
+	/** Custom check definitions; a check named like a preset check replaces it */
 	checks?: Check[];
+	/** Names of preset or inherited checks to drop */
+	disable_checks?: string[];
+	/** Rules that deny tool calls before they run */
+	guards?: Guard[];
+	/** Zellij tab status settings */
+	status?: StatusConfig;
+	/** JSON check report settings */
+	report?: ReportConfig;
+	/** Limits on re-prompting for checks that keep failing */
+	loop_protection?: LoopProtectionConfig;
+	/** Transcript tool settings */
+	tools?: ToolsConfig;
+	/** Detect files changed by Bash commands (sed -i, codegen) by snapshotting the working tree */
+	track_bash_changes?: boolean;
+	/** Version control system to get changed files from (default: auto) */
+	vcs?: VcsSetting;
 }
 
 /**
@@ -50,6 +251,15 @@ interface RufioConfigRaw {
  */
 export interface RufioConfig {
 	checks: Check[];
+	/** Names of inherited checks to drop */
+	disable_checks?: string[];
+	guards?: Guard[];
+	status?: StatusConfig;
+	report?: ReportConfig;
+	loop_protection?: LoopProtectionConfig;
+	tools?: ToolsConfig;
+	track_bash_changes?: boolean;
+	vcs?: VcsSetting;
 }
 
 /**
@@ -61,10 +271,71 @@ export interface LoadedConfig {
 	configDir: string;
 	/** Full path to the config file */
 	configPath: string;
+	/** Config whose checks this one inherits, if any */
+	parent?: LoadedConfig;
+}
+
+/**
+ * A check with the config it is evaluated relative to
+ */
+export interface EffectiveCheck {
+	check: Check;
+	/** Directory of the config that defines the check */
+	configDir: string;
+	/** Path of the config that defines the check */
+	configPath: string;
+}
+
+/**
+ * A guard with the config its globs are relative to
+ */
+export interface EffectiveGuard {
+	guard: Guard;
+	/** Directory of the config that defines the guard */
+	configDir: string;
+	/** Path of the config that defines the guard */
+	configPath: string;
 }
 
 const CONFIG_FILENAME = "rufio-hooks.yaml";
 
+/**
+ * A loaded config chain, or the error loading it, with the files it depends on
+ */
+interface CacheEntry {
+	result: { loaded: LoadedConfig } | { error: Error };
+	/** Every file read or looked for while loading -> its stamp at the time */
+	dependencies: Map<string, string>;
+}
+
+/**
+ * Loaded configs by path, repo root and preset search environment.
+ * An entry is reused until one of its dependencies changes.
+ */
+const configCache = new Map<string, CacheEntry>();
+
+/** Dependencies of the config being loaded, while `loadConfigChain` runs */
+let loadDependencies: Map<string, string> | undefined;
+
+/**
+ * Identifies a file's state by modification time and size ("missing" if it does not exist)
+ */
+function fileStamp(path: string): string {
+	const stats = statSync(path, { throwIfNoEntry: false });
+	return stats ? `${stats.mtimeMs}:${stats.size}` : "missing";
+}
+
+/**
+ * Records a file that the config being loaded depends on, whether or not it exists
+ * @returns The path, for use inline
+ */
+function track(path: string): string {
+	if (loadDependencies && !loadDependencies.has(path)) {
+		loadDependencies.set(path, fileStamp(path));
+	}
+	return path;
+}
+
 /**
  * Gets the XDG config home directory
  */
@@ -73,108 +344,747 @@ function getXdgConfigHome(): string {
 }
 
 /**
- * Loads a preset from XDG config directory if it exists
- * @returns The checks from the preset file, or null if not found
+ * Directories searched for a named preset, in order: `.rufio/presets` in the
+ * project directory and its ancestors up to the repository root, then
+ * `$XDG_CONFIG_HOME/rufio/presets`, then `rufio/presets` in each of `$XDG_CONFIG_DIRS`.
  */
-function loadXdgPreset(name: string): Check[] | null {
-	const presetPath = join(
-		getXdgConfigHome(),
-		"rufio",
-		"presets",
-		`${name}.yaml`,
-	);
-	if (!existsSync(presetPath)) {
-		return null;
+function getPresetDirs(projectDir: string): string[] {
+	const dirs: string[] = [];
+	let dir = projectDir;
+	for (;;) {
+		dirs.push(join(dir, ".rufio", "presets"));
+		const parent = dirname(dir);
+		if (existsSync(join(dir, ".git")) || parent === dir) {
+			break;
+		}
+		dir = parent;
 	}
 
-	const content = readFileSync(presetPath, "utf-8");
-	const parsed = parse(content) as { checks?: Check[] } | null;
-	return parsed?.checks ?? null;
+	const configDirs = (process.env.XDG_CONFIG_DIRS || "/etc/xdg")
+		.split(":")
+		.filter(Boolean);
+	for (const configDir of [getXdgConfigHome(), ...configDirs]) {
+		dirs.push(join(configDir, "rufio", "presets"));
+	}
+	return dirs;
 }
 
 /**
- * Resolves preset names to their check definitions.
- * Loads presets from XDG config directory ($XDG_CONFIG_HOME/rufio/presets/{name}.yaml).
+ * Whether a preset reference is a file path rather than a name
  */
-function resolvePresets(presetNames: string[], configPath: string): Check[] {
-	const checks: Check[] = [];
-	for (const name of presetNames) {
-		const preset = loadXdgPreset(name);
-		if (!preset) {
-			const presetPath = join(
-				getXdgConfigHome(),
-				"rufio",
-				"presets",
-				`${name}.yaml`,
-			);
+function isPresetPath(name: string): boolean {
+	return name.includes("/") || /\.ya?ml$/.test(name);
+}
+
+/**
+ * Finds a preset's source. Paths resolve against the directory of the file
+ * that references them; names are looked up in the preset directories, then
+ * among the built-in presets.
+ *
+ * @param from - File that references the preset
+ * @param projectDir - Directory of the project config the lookup started from
+ * @returns The preset's path (`builtin:{name}` for built-ins) and content,
+ *   or the locations searched if it was not found
+ */
+function findPreset(
+	name: string,
+	from: string,
+	projectDir: string,
+): { path: string; content: string } | { searched: string[] } {
+	const candidates = isPresetPath(name)
+		? [resolve(dirname(from), name)]
+		: getPresetDirs(projectDir).map((dir) => join(dir, `${name}.yaml`));
+	for (const path of candidates) {
+		if (existsSync(track(path))) {
+			return { path, content: readFileSync(path, "utf-8") };
+		}
+	}
+	if (!isPresetPath(name) && Object.hasOwn(BUILTIN_PRESETS, name)) {
+		return { path: `builtin:${name}`, content: BUILTIN_PRESETS[name] };
+	}
+	return {
+		searched: isPresetPath(name)
+			? candidates
+			: [...candidates, "built-in presets"],
+	};
+}
+
+/**
+ * Describes a preset that could not be found, with the locations searched
+ */
+function presetNotFound(name: string, searched: string[]): string {
+	return `preset '${name}' not found (searched ${searched.join(", ")})`;
+}
+
+/**
+ * Validates YAML content against its schema.
+ * @param path - File the content was read from (for error messages)
+ * @throws Error listing every schema issue with its line and column
+ */
+function parseValidated<T>(content: string, path: string, kind: SchemaKind): T {
+	const { value, issues } = parseAndValidate(content, kind);
+	if (issues.length > 0) {
+		throw new Error(
+			issues
+				.map((issue) => `Invalid config at ${formatIssue(path, issue)}`)
+				.join("\n"),
+		);
+	}
+	return value as T;
+}
+
+/**
+ * Replaces `${param}` placeholders in every string of a value.
+ * `$${param}` is left as the literal text `${param}`.
+ *
+ * @throws Error if a placeholder has no value
+ */
+function interpolate<T>(
+	value: T,
+	params: Record<string, PresetParam>,
+	presetPath: string,
+): T {
+	if (typeof value === "string") {
+		return value.replace(
+			/(\$?)\$\{(\w+)\}/g,
+			(match, escaped: string, name: string) => {
+				if (escaped) {
+					return match.slice(1);
+				}
+				if (!(name in params)) {
+					throw new Error(
+						`Invalid config at ${presetPath}: no value for parameter '${name}' (pass it with 'with' or set a default in 'params')`,
+					);
+				}
+				return String(params[name]);
+			},
+		) as T;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => interpolate(item, params, presetPath)) as T;
+	}
+	if (value !== null && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				interpolate(item, params, presetPath),
+			]),
+		) as T;
+	}
+	return value;
+}
+
+/** Name and parameters of a preset reference */
+function parsePresetRef(ref: PresetRef): {
+	name: string;
+	params: Record<string, PresetParam>;
+} {
+	return typeof ref === "string"
+		? { name: ref, params: {} }
+		: { name: ref.name, params: ref.with ?? {} };
+}
+
+/**
+ * Combines included checks with a file's own checks.
+ * Own checks replace included checks of the same name; disabled names are dropped.
+ *
+ * @throws Error if a disabled name matches no included check
+ */
+function composeChecks(
+	included: Check[],
+	own: Check[],
+	disabled: string[],
+	configPath: string,
+): Check[] {
+	for (const name of disabled) {
+		if (!included.some((check) => check.name === name)) {
 			throw new Error(
-				`Invalid config at ${configPath}: preset '${name}' not found at ${presetPath}`,
+				`Invalid config at ${configPath}: disable_checks: no preset check named '${name}'`,
 			);
 		}
-		checks.push(...preset);
 	}
-	return checks;
+
+	const ownByName = new Map(own.map((check) => [check.name, check]));
+	const checks = included
+		.filter((check) => !disabled.includes(check.name))
+		.map((check) => ownByName.get(check.name) ?? check);
+	const overridden = new Set(included.map((check) => check.name));
+	return [...checks, ...own.filter((check) => !overridden.has(check.name))];
 }
 
 /**
- * Validates a check definition
+ * A preset being loaded, for cycle detection
  */
-function validateCheck(check: Check, configPath: string): void {
-	if (!check.name) {
-		throw new Error(`Invalid config at ${configPath}: check missing 'name'`);
-	}
-	if (!check.when?.paths_changed) {
+interface PresetFrame {
+	name: string;
+	path: string;
+}
+
+/**
+ * Loads a preset and the presets it includes, with parameters applied.
+ * Presets are validated like project configs.
+ *
+ * @param ref - The preset reference
+ * @param configPath - File that references the preset (for error messages and relative paths)
+ * @param projectDir - Directory of the project config, where repo-local presets are searched from
+ * @param stack - Presets being loaded, for cycle detection
+ */
+function loadPreset(
+	ref: PresetRef,
+	configPath: string,
+	projectDir: string,
+	stack: PresetFrame[],
+): Check[] {
+	const { name, params } = parsePresetRef(ref);
+	const found = findPreset(name, configPath, projectDir);
+	if ("searched" in found) {
 		throw new Error(
-			`Invalid config at ${configPath}: check '${check.name}' missing 'when.paths_changed'`,
+			`Invalid config at ${configPath}: ${presetNotFound(name, found.searched)}`,
 		);
 	}
-	if (!check.then) {
+	const presetPath = found.path;
+	if (stack.some((frame) => frame.path === presetPath)) {
 		throw new Error(
-			`Invalid config at ${configPath}: check '${check.name}' missing 'then'`,
+			`Invalid config at ${configPath}: preset cycle ${[...stack.map((frame) => frame.name), name].join(" -> ")}`,
 		);
 	}
-	if (!check.then.ensure_commands && !check.then.ensure_changed) {
-		throw new Error(
-			`Invalid config at ${configPath}: check '${check.name}' must have 'then.ensure_commands' or 'then.ensure_changed'`,
+
+	const raw = parseValidated<PresetRaw>(found.content, presetPath, "preset");
+	const preset = interpolate(
+		{ presets: raw.presets, checks: raw.checks },
+		{ ...raw.params, ...params },
+		presetPath,
+	);
+	for (const check of preset.checks ?? []) {
+		validateCheck(check, presetPath);
+	}
+	return composeChecks(
+		resolvePresets(preset.presets ?? [], presetPath, projectDir, [
+			...stack,
+			{ name, path: presetPath },
+		]),
+		preset.checks ?? [],
+		raw.disable_checks ?? [],
+		presetPath,
+	);
+}
+
+/**
+ * Resolves preset references to their check definitions, in order.
+ * See `findPreset` for where presets are looked up.
+ */
+function resolvePresets(
+	refs: PresetRef[],
+	configPath: string,
+	projectDir: string = dirname(configPath),
+	stack: PresetFrame[] = [],
+): Check[] {
+	return refs.flatMap((ref) => loadPreset(ref, configPath, projectDir, stack));
+}
+
+/**
+ * Finds problems in a schema-valid check that the schema cannot express
+ * @returns A description of each problem
+ */
+function checkProblems(check: Check): string[] {
+	const problems: string[] = [];
+	if ([check.when.paths_changed].flat().every((p) => p.startsWith("!"))) {
+		problems.push(
+			"must have a 'when.paths_changed' pattern that is not negated with '!'",
+		);
+	}
+	const requirements = [check.then].flat();
+	if (
+		requirements.some(
+			(then) =>
+				!then.ensure_commands &&
+				!then.ensure_changed &&
+				!then.ensure_not_changed &&
+				!then.ensure_file_contains &&
+				!then.ensure_tool_used,
+		)
+	) {
+		problems.push(
+			"must have 'then.ensure_commands', 'then.ensure_changed', 'then.ensure_not_changed', 'then.ensure_file_contains' or 'then.ensure_tool_used'",
 		);
 	}
-	if (check.then.ensure_commands && check.then.ensure_changed) {
+
+	// Regexes are compiled only when checks run, so report syntax errors here
+	const conditionRegexes = (condition: Condition): string[] => [
+		...(condition.file_contains !== undefined ? [condition.file_contains] : []),
+		...[...(condition.all ?? []), ...(condition.any ?? [])].flatMap(
+			conditionRegexes,
+		),
+		...(condition.not ? conditionRegexes(condition.not) : []),
+	];
+	const regexes = [
+		...conditionRegexes(check.when).map((regex) => ({
+			entry: "file_contains condition",
+			regex,
+		})),
+		...requirements
+			.flatMap((then) => then.ensure_commands ?? [])
+			.flatMap(patternRegexes)
+			.map((regex) => ({ entry: "ensure_commands entry", regex })),
+		...requirements
+			.flatMap((then) => then.ensure_file_contains ?? [])
+			.map(({ regex }) => ({ entry: "ensure_file_contains entry", regex })),
+	];
+	return [...problems, ...regexProblems(regexes)];
+}
+
+/** Lists the regexes in a command pattern */
+function patternRegexes(pattern: CommandPattern): string[] {
+	if (typeof pattern === "string") {
+		return [];
+	}
+	if ("regex" in pattern) {
+		return [pattern.regex];
+	}
+	return "any_of" in pattern ? pattern.any_of.flatMap(patternRegexes) : [];
+}
+
+/** Describes each regex that does not compile */
+function regexProblems(regexes: { entry: string; regex: string }[]): string[] {
+	const problems: string[] = [];
+	for (const { entry, regex } of regexes) {
+		try {
+			new RegExp(regex);
+		} catch (e) {
+			problems.push(
+				`has an invalid ${entry}: bad regex '${regex}': ${(e as Error).message}`,
+			);
+		}
+	}
+	return problems;
+}
+
+/**
+ * Finds problems in a schema-valid guard that the schema cannot express
+ * @returns A description of each problem
+ */
+function guardProblems(guard: Guard): string[] {
+	const problems: string[] = [];
+	if (!guard.deny_edits && !guard.deny_commands) {
+		problems.push("must have 'deny_edits' or 'deny_commands'");
+	}
+	if (
+		guard.deny_edits &&
+		[guard.deny_edits].flat().every((p) => p.startsWith("!"))
+	) {
+		problems.push(
+			"must have a 'deny_edits' pattern that is not negated with '!'",
+		);
+	}
+	return [
+		...problems,
+		...regexProblems(
+			(guard.deny_commands ?? [])
+				.flatMap(patternRegexes)
+				.map((regex) => ({ entry: "deny_commands entry", regex })),
+		),
+	];
+}
+
+/**
+ * Validates a check definition
+ */
+function validateCheck(check: Check, configPath: string): void {
+	const [problem] = checkProblems(check);
+	if (problem) {
 		throw new Error(
-			`Invalid config at ${configPath}: check '${check.name}' cannot have both 'then.ensure_commands' and 'then.ensure_changed'`,
+			`Invalid config at ${configPath}: check '${check.name}' ${problem}`,
 		);
 	}
 }
 
+/**
+ * Reads and validates a config file against the schema
+ */
+function readConfig(configPath: string): RufioConfigRaw {
+	return parseValidated<RufioConfigRaw>(
+		readFileSync(track(configPath), "utf-8"),
+		configPath,
+		"config",
+	);
+}
+
 /**
  * Loads and parses a rufio.yaml config file.
  * Resolves presets and merges them with custom checks.
  * Returns a normalized config where presets have been expanded into checks.
+ * Inheritance is not followed; see `loadConfigChain`.
+ *
+ * @param inheritedChecks - Names of the checks inherited from a parent config,
+ *   which `disable_checks` may name
  */
-export function loadConfig(configPath: string): RufioConfig {
-	const content = readFileSync(configPath, "utf-8");
-	const parsed = parse(content) as RufioConfigRaw | null;
+export function loadConfig(
+	configPath: string,
+	inheritedChecks: string[] = [],
+): RufioConfig {
+	return buildConfig(readConfig(configPath), configPath, inheritedChecks);
+}
 
-	// Resolve presets first
-	const presetChecks = parsed?.presets
-		? resolvePresets(parsed.presets, configPath)
-		: [];
-	const userChecks = parsed?.checks ?? [];
+/**
+ * Builds the resolved config from a validated config file
+ */
+function buildConfig(
+	parsed: RufioConfigRaw,
+	configPath: string,
+	inheritedChecks: string[],
+): RufioConfig {
+	// Resolve presets first (each preset is validated as it loads)
+	const presetChecks = resolvePresets(parsed.presets ?? [], configPath);
+	const userChecks = parsed.checks ?? [];
+	const disabled = parsed.disable_checks ?? [];
 
-	// Merge: presets first, then user checks
-	const mergedChecks = [...presetChecks, ...userChecks];
+	// Merge: presets first, then user checks (which may replace preset checks).
+	// Names of inherited checks are dropped from the inherited list instead.
+	const mergedChecks = composeChecks(
+		presetChecks,
+		userChecks,
+		disabled.filter(
+			(name) =>
+				!inheritedChecks.includes(name) ||
+				presetChecks.some((check) => check.name === name),
+		),
+		configPath,
+	);
 
-	if (mergedChecks.length === 0) {
+	// A config that inherits applies its parent's checks and guards, so it is not empty
+	const inherits =
+		inheritedChecks.length > 0 ||
+		parsed.inherit === true ||
+		parsed.extends !== undefined;
+	if (mergedChecks.length === 0 && !parsed.guards?.length && !inherits) {
 		throw new Error(
-			`Invalid config at ${configPath}: no checks defined (add 'presets' or 'checks')`,
+			`Invalid config at ${configPath}: no checks defined (add 'presets', 'checks' or 'guards')`,
 		);
 	}
 
-	// Validate all checks (preset checks are trusted but user checks need validation)
 	for (const check of userChecks) {
 		validateCheck(check, configPath);
 	}
+	for (const guard of parsed.guards ?? []) {
+		const [problem] = guardProblems(guard);
+		if (problem) {
+			throw new Error(
+				`Invalid config at ${configPath}: guard '${guard.name}' ${problem}`,
+			);
+		}
+	}
 
-	return { checks: mergedChecks };
+	return {
+		checks: mergedChecks,
+		disable_checks: parsed.disable_checks,
+		guards: parsed.guards,
+		status: parsed.status,
+		report: parsed.report,
+		loop_protection: parsed.loop_protection,
+		tools: parsed.tools,
+		track_bash_changes: parsed.track_bash_changes,
+		vcs: parsed.vcs,
+	};
+}
+
+/**
+ * Finds the config a config inherits from, if it sets `inherit` or `extends`.
+ * `inherit: true` uses the nearest config above the config's directory, without
+ * leaving the repository (`repoRoot`, or the nearest directory containing `.git`).
+ *
+ * @throws Error if both are set or the parent config does not exist
+ */
+function findParentConfig(
+	parsed: RufioConfigRaw,
+	configPath: string,
+	repoRoot?: string,
+): string | null {
+	if (parsed.inherit && parsed.extends !== undefined) {
+		throw new Error(
+			`Invalid config at ${configPath}: set either 'inherit' or 'extends', not both`,
+		);
+	}
+
+	if (parsed.extends !== undefined) {
+		let parentPath = resolve(dirname(configPath), parsed.extends);
+		if (existsSync(track(parentPath)) && statSync(parentPath).isDirectory()) {
+			parentPath = join(parentPath, CONFIG_FILENAME);
+		}
+		if (!existsSync(track(parentPath))) {
+			throw new Error(
+				`Invalid config at ${configPath}: extends: no config at ${parentPath}`,
+			);
+		}
+		return parentPath;
+	}
+
+	if (!parsed.inherit) {
+		return null;
+	}
+	let dir = dirname(configPath);
+	while (
+		!existsSync(join(dir, ".git")) &&
+		(repoRoot === undefined || dir !== resolve(repoRoot)) &&
+		dirname(dir) !== dir
+	) {
+		dir = dirname(dir);
+		if (existsSync(track(join(dir, CONFIG_FILENAME)))) {
+			return join(dir, CONFIG_FILENAME);
+		}
+	}
+	throw new Error(
+		`Invalid config at ${configPath}: inherit: no ${CONFIG_FILENAME} in a parent directory`,
+	);
+}
+
+/**
+ * Loads a config and, if it sets `inherit` or `extends`, the configs it inherits from.
+ * Results and errors are cached until the config, a parent config or a preset changes,
+ * or a file that would take precedence over one of them appears.
+ *
+ * @param repoRoot - Repository root, which `inherit: true` does not look above
+ * @param stack - Configs being loaded, for cycle detection
+ */
+export function loadConfigChain(
+	configPath: string,
+	repoRoot?: string,
+	stack: string[] = [],
+): LoadedConfig {
+	if (stack.includes(configPath)) {
+		throw new Error(
+			`Invalid config at ${configPath}: config inheritance cycle ${[...stack, configPath].join(" -> ")}`,
+		);
+	}
+
+	const key = [
+		configPath,
+		repoRoot ?? "",
+		process.env.XDG_CONFIG_HOME ?? "",
+		process.env.XDG_CONFIG_DIRS ?? "",
+	].join("\0");
+	let entry = configCache.get(key);
+	if (
+		!entry ||
+		[...entry.dependencies].some(([path, stamp]) => fileStamp(path) !== stamp)
+	) {
+		const outer = loadDependencies;
+		loadDependencies = new Map();
+		try {
+			entry = {
+				result: { loaded: readConfigChain(configPath, repoRoot, stack) },
+				dependencies: loadDependencies,
+			};
+		} catch (e) {
+			entry = {
+				result: { error: e instanceof Error ? e : new Error(String(e)) },
+				dependencies: loadDependencies,
+			};
+		} finally {
+			loadDependencies = outer;
+		}
+		configCache.set(key, entry);
+	}
+
+	// A parent config's dependencies are also dependencies of its children
+	for (const [path, stamp] of entry.dependencies) {
+		if (loadDependencies && !loadDependencies.has(path)) {
+			loadDependencies.set(path, stamp);
+		}
+	}
+	if ("error" in entry.result) {
+		throw entry.result.error;
+	}
+	return entry.result.loaded;
+}
+
+/**
+ * Loads a config chain without the cache
+ */
+function readConfigChain(
+	configPath: string,
+	repoRoot: string | undefined,
+	stack: string[],
+): LoadedConfig {
+	const parsed = readConfig(configPath);
+	const parentPath = findParentConfig(parsed, configPath, repoRoot);
+	const parent = parentPath
+		? loadConfigChain(parentPath, repoRoot, [...stack, configPath])
+		: undefined;
+	const inheritedChecks = parent
+		? getEffectiveChecks(parent).map(({ check }) => check.name)
+		: [];
+	return {
+		config: buildConfig(parsed, configPath, inheritedChecks),
+		configDir: dirname(configPath),
+		configPath,
+		parent,
+	};
+}
+
+/**
+ * Lists the checks that apply under a config, inherited ones first.
+ * A check named like an inherited one replaces it, and `disable_checks` drops inherited checks.
+ */
+export function getEffectiveChecks(loaded: LoadedConfig): EffectiveCheck[] {
+	const { configDir, configPath } = loaded;
+	const own = loaded.config.checks.map((check) => ({
+		check,
+		configDir,
+		configPath,
+	}));
+	if (!loaded.parent) {
+		return own;
+	}
+
+	const disabled = loaded.config.disable_checks ?? [];
+	const ownByName = new Map(
+		own.map((effective) => [effective.check.name, effective]),
+	);
+	const inherited = getEffectiveChecks(loaded.parent)
+		.filter(({ check }) => !disabled.includes(check.name))
+		.map((effective) => ownByName.get(effective.check.name) ?? effective);
+	const overridden = new Set(inherited.map(({ check }) => check.name));
+	return [
+		...inherited,
+		...own.filter(({ check }) => !overridden.has(check.name)),
+	];
+}
+
+/**
+ * Lists the guards that apply under a config: its own and those of every config it inherits from.
+ * Unlike checks, inherited guards cannot be replaced or disabled.
+ */
+export function getEffectiveGuards(loaded: LoadedConfig): EffectiveGuard[] {
+	const { configDir, configPath } = loaded;
+	return [
+		...(loaded.parent ? getEffectiveGuards(loaded.parent) : []),
+		...(loaded.config.guards ?? []).map((guard) => ({
+			guard,
+			configDir,
+			configPath,
+		})),
+	];
+}
+
+/**
+ * Validates a config or preset file without stopping at the first problem.
+ * Presets referenced by a config are validated too.
+ *
+ * @returns Every problem found, prefixed with the file (and line and column, if known)
+ */
+export function validateConfigFile(
+	path: string,
+	kind: SchemaKind = "config",
+): string[] {
+	const problems = validateFileTree(
+		path,
+		readFileSync(path, "utf-8"),
+		kind,
+		dirname(path),
+		new Set(),
+	);
+	if (problems.length > 0 || kind !== "config") {
+		return problems;
+	}
+
+	// Everything parses, so resolve presets and parent configs to catch cycles, parameters and overrides
+	try {
+		loadConfigChain(path);
+	} catch (e) {
+		problems.push((e as Error).message);
+	}
+	return problems;
+}
+
+/**
+ * Validates a file's schema and checks, and those of the presets it includes.
+ * @param seen - Files already validated, so cycles and shared presets are visited once
+ */
+function validateFileTree(
+	path: string,
+	content: string,
+	kind: SchemaKind,
+	projectDir: string,
+	seen: Set<string>,
+): string[] {
+	seen.add(path);
+	const { value, issues } = parseAndValidate(content, kind);
+	if (issues.length > 0) {
+		return issues.map((issue) => formatIssue(path, issue));
+	}
+
+	const raw = value as RufioConfigRaw & PresetRaw;
+	const problems = [
+		...(raw.checks ?? []).flatMap((check) =>
+			checkProblems(check).map(
+				(problem) => `${path}: check '${check.name}' ${problem}`,
+			),
+		),
+		...(raw.guards ?? []).flatMap((guard) =>
+			guardProblems(guard).map(
+				(problem) => `${path}: guard '${guard.name}' ${problem}`,
+			),
+		),
+	];
+	for (const ref of raw.presets ?? []) {
+		const { name } = parsePresetRef(ref);
+		const found = findPreset(name, path, projectDir);
+		if ("searched" in found) {
+			problems.push(`${path}: ${presetNotFound(name, found.searched)}`);
+		} else if (!seen.has(found.path)) {
+			problems.push(
+				...validateFileTree(
+					found.path,
+					found.content,
+					"preset",
+					projectDir,
+					seen,
+				),
+			);
+		}
+	}
+	if (
+		!raw.presets?.length &&
+		!raw.checks?.length &&
+		!raw.guards?.length &&
+		!raw.inherit &&
+		raw.extends === undefined
+	) {
+		problems.push(
+			`${path}: no checks defined (add 'presets', 'checks' or 'guards')`,
+		);
+	}
+	return problems;
+}
+
+/**
+ * Finds the path of the nearest config at or above a directory, within the repo.
+ *
+ * @param lookups - Results of earlier lookups by directory, shared between
+ *   files so each directory is checked once
+ */
+function findConfigPath(
+	dir: string,
+	repoRoot: string,
+	lookups: Map<string, string | null>,
+): string | null {
+	const cached = lookups.get(dir);
+	if (cached !== undefined) {
+		return cached;
+	}
+
+	let configPath: string | null = null;
+	if (dir.startsWith(repoRoot)) {
+		const candidate = join(dir, CONFIG_FILENAME);
+		const parentDir = dirname(dir);
+		if (existsSync(candidate)) {
+			configPath = candidate;
+		} else if (parentDir !== dir) {
+			configPath = findConfigPath(parentDir, repoRoot, lookups);
+		}
+	}
+	lookups.set(dir, configPath);
+	return configPath;
 }
 
 /**
@@ -189,56 +1099,100 @@ export function findNearestConfig(
 	filePath: string,
 	repoRoot: string,
 ): LoadedConfig | null {
-	const absoluteFilePath = resolve(filePath);
 	const absoluteRepoRoot = resolve(repoRoot);
+	const configPath = findConfigPath(
+		dirname(resolve(filePath)),
+		absoluteRepoRoot,
+		new Map(),
+	);
+	return configPath ? loadConfigChain(configPath, absoluteRepoRoot) : null;
+}
 
-	let currentDir = dirname(absoluteFilePath);
-
-	while (currentDir.startsWith(absoluteRepoRoot)) {
-		const configPath = join(currentDir, CONFIG_FILENAME);
+/** Entries that mark the root of a git, jj or Mercurial repository */
+const REPO_MARKERS = [".git", ".jj", ".hg"];
 
-		if (existsSync(configPath)) {
-			const config = loadConfig(configPath);
-			return {
-				config,
-				configDir: currentDir,
-				configPath,
-			};
+/**
+ * Finds the root of the repository containing a directory: the nearest
+ * directory with a `.git`, `.jj` or `.hg` entry, or `dir` itself outside a repository
+ */
+function findRepoRoot(dir: string): string {
+	for (let current = resolve(dir); ; current = dirname(current)) {
+		if (REPO_MARKERS.some((marker) => existsSync(join(current, marker)))) {
+			return current;
 		}
-
-		// Move up one directory
-		const parentDir = dirname(currentDir);
-		if (parentDir === currentDir) {
-			// Reached filesystem root
-			break;
+		if (dirname(current) === current) {
+			return resolve(dir);
 		}
-		currentDir = parentDir;
 	}
+}
 
-	return null;
+/**
+ * Loads the nearest config at or above a session directory, within its repository.
+ * Used for session-wide settings (tab status, reports) rather than per-file checks.
+ */
+export function loadSessionConfig(sessionDir: string): LoadedConfig | null {
+	return findNearestConfig(
+		join(sessionDir, CONFIG_FILENAME),
+		findRepoRoot(sessionDir),
+	);
+}
+
+/**
+ * Gets the settings of the session config, if any.
+ * Config errors are reported by the checks themselves, so they are ignored here.
+ */
+export function getSessionConfig(sessionDir: string): RufioConfig | undefined {
+	try {
+		return loadSessionConfig(sessionDir)?.config;
+	} catch {
+		return undefined;
+	}
 }
 
 /**
  * Groups changed files by their nearest config.
  * Returns a map of config path -> { config, files }
+ *
+ * @param onError - Called once per config that fails to load, with the files it
+ *   applies to; those files are left out. Without it, the error is thrown.
  */
 export function groupFilesByConfig(
 	changedFiles: string[],
 	repoRoot: string,
+	onError?: (error: Error, files: string[]) => void,
 ): Map<string, { loaded: LoadedConfig; files: string[] }> {
-	const groups = new Map<string, { loaded: LoadedConfig; files: string[] }>();
-
+	const absoluteRepoRoot = resolve(repoRoot);
+	const lookups = new Map<string, string | null>();
+	const filesByConfig = new Map<string, string[]>();
 	for (const file of changedFiles) {
-		const loaded = findNearestConfig(join(repoRoot, file), repoRoot);
-		if (!loaded) {
+		const configPath = findConfigPath(
+			dirname(join(absoluteRepoRoot, file)),
+			absoluteRepoRoot,
+			lookups,
+		);
+		if (!configPath) {
 			continue;
 		}
-
-		const existing = groups.get(loaded.configPath);
-		if (existing) {
-			existing.files.push(file);
+		const files = filesByConfig.get(configPath);
+		if (files) {
+			files.push(file);
 		} else {
-			groups.set(loaded.configPath, { loaded, files: [file] });
+			filesByConfig.set(configPath, [file]);
+		}
+	}
+
+	const groups = new Map<string, { loaded: LoadedConfig; files: string[] }>();
+	for (const [configPath, files] of filesByConfig) {
+		try {
+			groups.set(configPath, {
+				loaded: loadConfigChain(configPath, absoluteRepoRoot),
+				files,
+			});
+		} catch (e) {
+			if (!onError) {
+				throw e;
+			}
+			onError(e as Error, files);
 		}
 	}
 
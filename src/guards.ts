@@ -0,0 +1,108 @@
+import { join, relative, resolve } from "node:path";
+import { createPathMatcher } from "./checks/runner.js";
+import {
+	type EffectiveGuard,
+	findNearestConfig,
+	getEffectiveGuards,
+} from "./config.js";
+import {
+	describeCommandPattern,
+	eventMatches,
+	getEditedPaths,
+	type ToolEvent,
+} from "./transcript.js";
+
+/**
+ * A tool call denied by a guard
+ */
+export interface GuardDenial {
+	/** Name of the guard */
+	guardName: string;
+	/** Full path to the config file that defines the guard */
+	configPath: string;
+	/** Explanation for the agent */
+	message: string;
+}
+
+/**
+ * Guards that apply under the nearest config of a file.
+ * A config that fails to load guards nothing; the checks report its error.
+ */
+function guardsFor(filePath: string, repoRoot: string): EffectiveGuard[] {
+	try {
+		const loaded = findNearestConfig(filePath, repoRoot);
+		return loaded ? getEffectiveGuards(loaded) : [];
+	} catch {
+		return [];
+	}
+}
+
+/** Builds a denial, appending the guard's reason */
+function deny(
+	{ guard, configPath }: EffectiveGuard,
+	description: string,
+): GuardDenial {
+	const reason = guard.reason ? `\n${guard.reason}` : "";
+	return {
+		guardName: guard.name,
+		configPath,
+		message: `Rufio guard '${guard.name}' denied this call: ${description}${reason}`,
+	};
+}
+
+/**
+ * Decides whether a tool call may run.
+ * Edited files are checked against the guards of their nearest config, Bash
+ * commands against those of the configs for the directories their programs run in:
+ * the tool's `workdir` and any directory `cd` takes them to.
+ * Glob patterns are relative to the directory of the config that defines them.
+ *
+ * @param event - The tool call, from `extractToolCall`
+ * @param cwd - Session directory, which relative paths and a missing `workdir` resolve against
+ * @param repoRoot - Root of the repository; configs above it are not used
+ * @returns The first denial, or null if the call may run
+ */
+export function checkGuards(
+	event: ToolEvent,
+	cwd: string,
+	repoRoot: string,
+): GuardDenial | null {
+	for (const path of getEditedPaths(event).map((p) => resolve(cwd, p))) {
+		for (const effective of guardsFor(path, repoRoot)) {
+			const { guard, configDir } = effective;
+			if (
+				guard.deny_edits &&
+				createPathMatcher({ paths_changed: guard.deny_edits }, configDir)(path)
+			) {
+				return deny(
+					effective,
+					`${relative(configDir, path)} must not be edited directly`,
+				);
+			}
+		}
+	}
+
+	if (event.toolName === "Bash" && event.command) {
+		const dirs = new Set([
+			resolve(cwd, event.workdir ?? "."),
+			...(event.invocations ?? []).flatMap((i) => i.cwd ?? []),
+		]);
+		for (const dir of dirs) {
+			for (const effective of guardsFor(
+				join(dir, "rufio-hooks.yaml"),
+				repoRoot,
+			)) {
+				const pattern = effective.guard.deny_commands?.find((p) =>
+					eventMatches(event, p),
+				);
+				if (pattern) {
+					return deny(
+						effective,
+						`commands matching ${describeCommandPattern(pattern)} must not run`,
+					);
+				}
+			}
+		}
+	}
+	return null;
+}
@@ -1,12 +1,68 @@
+import { resolve } from "node:path";
 import type { Plugin, PluginInput } from "@opencode-ai/plugin";
 import type {
 	Event,
+	EventMessageUpdated,
+	EventPermissionReplied,
+	EventPermissionUpdated,
+	EventSessionCreated,
 	EventSessionDeleted,
 	EventSessionIdle,
+	EventSessionStatus,
 } from "@opencode-ai/sdk";
 
-import { runChecks } from "./checks/runner.js";
-import { extractToolEvents, type MessageWithParts } from "./transcript.js";
+import {
+	diffSnapshots,
+	isBashTool,
+	mergeAttributedChanges,
+	type Snapshot,
+	takeSnapshot,
+} from "./attribution.js";
+import {
+	type AutoRunRecord,
+	autoRunMissingCommands,
+	mergeAutoRuns,
+	updateAutoRunRecords,
+} from "./checks/autorun.js";
+import { decideReprompt, type RetryState } from "./checks/loop.js";
+import {
+	buildReport,
+	type CheckReport,
+	resolveReportPath,
+	writeReport,
+} from "./checks/report.js";
+import {
+	type CheckFailure,
+	type CheckResult,
+	isBlocking,
+	isFailure,
+} from "./checks/result.js";
+import {
+	evaluateChecks,
+	formatFailures,
+	formatWarnings,
+} from "./checks/runner.js";
+import {
+	getSessionConfig,
+	type LoopProtectionConfig,
+	type ReportConfig,
+	type RufioConfig,
+} from "./config.js";
+import { checkGuards } from "./guards.js";
+import { clearTabStatus, setTabStatus, type TabState } from "./status.js";
+import {
+	extractToolCall,
+	extractToolEvents,
+	getTranscriptChanges,
+	type MessageWithParts,
+} from "./transcript.js";
+import type { FileChange } from "./vcs/backend.js";
+import {
+	type Baseline,
+	getSessionChanges,
+	takeBaseline,
+} from "./vcs/baseline.js";
+import { type DetectedVcs, detectVcs } from "./vcs/detect.js";
 
 /**
  * Cache of session ID to directory.
@@ -14,6 +70,68 @@ import { extractToolEvents, type MessageWithParts } from "./transcript.js";
  */
 const sessionDirectories = new Map<string, string>();
 
+/**
+ * Commands run by rufio on each session's behalf (auto_run).
+ * Kept so a command is not re-run when nothing was edited since.
+ */
+const sessionAutoRuns = new Map<string, AutoRunRecord[]>();
+
+/** Working tree snapshots taken before each Bash call and the repository they cover, keyed by call ID */
+const pendingSnapshots = new Map<
+	string,
+	{ vcs: DetectedVcs; snapshot: Snapshot }
+>();
+
+/** Files changed by each session's Bash calls, keyed by session ID then call ID */
+const sessionBashChanges = new Map<string, Map<string, string[]>>();
+
+/**
+ * Working tree state when each session started, so checks only see the session's own changes.
+ * Sessions without one (e.g. started before the plugin loaded) are checked against the whole dirty tree.
+ */
+const sessionBaselines = new Map<string, Baseline>();
+
+/** Last warning note added to each session, so an unchanged note is not repeated */
+const sessionWarnings = new Map<string, string>();
+
+/**
+ * IDs of the notes rufio added to each session. Notes are user messages, but
+ * they do not mean the session is working again.
+ */
+const sessionNotes = new Map<string, Set<string>>();
+
+/** Sessions with a note being sent whose message ID is not known yet */
+const pendingNotes = new Set<string>();
+
+/** Config errors last reported to each session, so a broken config is reported once */
+const sessionConfigErrors = new Map<string, string>();
+
+/**
+ * How many times each session was re-prompted for its current set of failing checks.
+ * Reset when the set changes, so progress on any check restores the full budget.
+ */
+const sessionRetries = new Map<string, RetryState>();
+
+/** Records a session's baseline unless it already has one */
+async function recordBaseline(
+	$: PluginInput["$"],
+	sessionID: string,
+	sessionDir: string,
+): Promise<void> {
+	if (sessionBaselines.has(sessionID)) {
+		return;
+	}
+	const vcs = await detectVcs(
+		$,
+		sessionDir,
+		getSessionConfig(sessionDir)?.vcs ?? "auto",
+	);
+	const baseline = vcs ? await takeBaseline($, vcs).catch(() => null) : null;
+	if (baseline && !sessionBaselines.has(sessionID)) {
+		sessionBaselines.set(sessionID, baseline);
+	}
+}
+
 /** Format an error for logging */
 function formatError(e: unknown): string {
 	return e instanceof Error ? e.message : String(e);
@@ -50,41 +168,281 @@ async function getSessionDirectory(
 }
 
 /**
- * Gets the list of changed files from git status.
+ * Counts a re-prompt for the session's failing checks and decides whether to send it.
+ * When giving up (see `decideReprompt`), rufio logs an error and asks the user
+ * to step in with a toast.
  */
-async function getChangedFiles($: PluginInput["$"]): Promise<string[]> {
+async function allowReprompt(
+	client: PluginInput["client"],
+	sessionID: string,
+	failures: CheckFailure[],
+	settings: LoopProtectionConfig,
+): Promise<boolean> {
+	const { action, state, maxRetries, toast } = decideReprompt(
+		sessionRetries.get(sessionID),
+		failures,
+		settings,
+	);
+	sessionRetries.set(sessionID, state);
+	if (action !== "escalate") {
+		return action === "reprompt";
+	}
+
+	const names = failures.map((f) => f.checkName).join(", ");
+	await client.app.log({
+		body: {
+			service: "rufio",
+			level: "error",
+			message: `loop protection: stopped re-prompting ${sessionID} after ${maxRetries} attempts; still failing: ${names}`,
+		},
+	});
+	if (toast) {
+		await client.tui.showToast({
+			body: {
+				title: "Rufio needs help",
+				message: `Checks still failing after ${maxRetries} attempts: ${names}`,
+				variant: "error",
+			},
+		});
+	}
+	return false;
+}
+
+/**
+ * Resolves the path of the session's check report, if the session config enables one.
+ * An invalid path is logged and disables the report.
+ */
+async function getReportPath(
+	sessionID: string,
+	sessionDir: string,
+	reportConfig: ReportConfig | undefined,
+	client: PluginInput["client"],
+): Promise<string | null> {
+	if (!reportConfig) {
+		return null;
+	}
 	try {
-		const result = await $`git status --porcelain -uall`.quiet();
-		const output = result.text();
-		return output
-			.split("\n")
-			.filter((line: string) => line.trim())
-			.map((line: string) => line.slice(3).trim()); // Remove status prefix (e.g., " M ", "?? ")
-	} catch {
-		return [];
+		return resolveReportPath(sessionDir, reportConfig.path, sessionID);
+	} catch (e) {
+		await client.app.log({
+			body: {
+				service: "rufio",
+				level: "warn",
+				message: `report error: ${formatError(e)}`,
+			},
+		});
+		return null;
 	}
 }
 
 /**
- * Runs all stop checks and returns the first error message, or null if all pass.
+ * Writes the check report, if enabled.
+ * Failures are logged rather than interrupting the checks.
  */
-async function runStopChecks(
+async function saveReport(
+	reportPath: string | null,
+	report: CheckReport,
+	client: PluginInput["client"],
+): Promise<void> {
+	if (!reportPath) {
+		return;
+	}
+	try {
+		writeReport(reportPath, report);
+	} catch (e) {
+		await client.app.log({
+			body: {
+				service: "rufio",
+				level: "warn",
+				message: `report error: ${formatError(e)}`,
+			},
+		});
+	}
+}
+
+/**
+ * Surfaces failures of non-blocking checks without re-prompting.
+ * `warn` failures show a toast and add a note to the session; `info` failures are only logged.
+ */
+async function reportNonBlocking(
+	client: PluginInput["client"],
+	sessionID: string,
+	failures: CheckFailure[],
+): Promise<void> {
+	for (const failure of failures.filter((f) => f.severity === "info")) {
+		await client.app.log({
+			body: { service: "rufio", level: "info", message: failure.message },
+		});
+	}
+
+	const warnings = failures.filter((f) => f.severity === "warn");
+	const note = formatWarnings(warnings);
+	if (!note) {
+		sessionWarnings.delete(sessionID);
+		return;
+	}
+	await client.app.log({
+		body: {
+			service: "rufio",
+			level: "warn",
+			message: `warnChecks: ${JSON.stringify(warnings.map((f) => f.checkName))}`,
+		},
+	});
+	if (sessionWarnings.get(sessionID) === note) {
+		return;
+	}
+	sessionWarnings.set(sessionID, note);
+
+	await client.tui.showToast({
+		body: {
+			title: "Rufio",
+			message: warnings.map((f) => `${f.checkName} failed`).join("\n"),
+			variant: "warning",
+		},
+	});
+	pendingNotes.add(sessionID);
+	try {
+		const sent = await client.session.prompt({
+			path: { id: sessionID },
+			body: { noReply: true, parts: [{ type: "text", text: note }] },
+		});
+		if (sent.data) {
+			addNote(sessionID, sent.data.info.id);
+		}
+	} finally {
+		pendingNotes.delete(sessionID);
+	}
+}
+
+/** Remembers a message as one of rufio's notes */
+function addNote(sessionID: string, messageID: string): void {
+	const notes = sessionNotes.get(sessionID) ?? new Set();
+	notes.add(messageID);
+	sessionNotes.set(sessionID, notes);
+}
+
+/**
+ * Whether a user message is a note added by rufio.
+ * While a note is being sent, the first new user message is taken to be it,
+ * since its event may arrive before the prompt call returns.
+ */
+function isNote(sessionID: string, messageID: string): boolean {
+	if (sessionNotes.get(sessionID)?.has(messageID)) {
+		return true;
+	}
+	if (pendingNotes.delete(sessionID)) {
+		addNote(sessionID, messageID);
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Reports configs that failed to load with an error log and a toast.
+ * Errors are reported again only when they change.
+ */
+async function reportConfigErrors(
+	client: PluginInput["client"],
+	sessionID: string,
+	errors: string[],
+): Promise<void> {
+	const reported = errors.join("\n");
+	if (!reported) {
+		sessionConfigErrors.delete(sessionID);
+		return;
+	}
+	if (sessionConfigErrors.get(sessionID) === reported) {
+		return;
+	}
+	sessionConfigErrors.set(sessionID, reported);
+
+	await client.app.log({
+		body: { service: "rufio", level: "error", message: reported },
+	});
+	await client.tui.showToast({
+		body: {
+			title: "Rufio config error",
+			message: `${reported}\nChecks of the affected files are skipped until it is fixed.`,
+			variant: "error",
+		},
+	});
+}
+
+/**
+ * Gets a session's changes from its version control system.
+ * With a baseline from the same repository, only changes made since count.
+ */
+async function getVcsChanges(
+	$: PluginInput["$"],
+	sessionID: string,
+	vcs: DetectedVcs,
+): Promise<FileChange[]> {
+	const baseline = sessionBaselines.get(sessionID);
+	if (baseline?.vcs === vcs.backend.name && baseline.root === vcs.root) {
+		return (await getSessionChanges($, vcs, baseline)).changes;
+	}
+	return vcs.backend.getChanges($, vcs.root);
+}
+
+/** Logs the changed files the checks run against */
+async function logChangedFiles(
+	client: PluginInput["client"],
+	changes: FileChange[],
+): Promise<void> {
+	await client.app.log({
+		body: {
+			service: "rufio",
+			level: "info",
+			message: `changedFiles: ${JSON.stringify(changes.map((c) => `${c.kind} ${c.path}`))}`,
+		},
+	});
+}
+
+/**
+ * Gets the files changed in a session and evaluates the checks that apply to them.
+ * The check report is not a change of the session, so it is left out.
+ *
+ * @param reportPath - Full path of the session's check report, if enabled
+ */
+async function evaluateStopChecks(
 	$: PluginInput["$"],
 	client: PluginInput["client"],
 	sessionID: string,
 	cwd: string,
-): Promise<string | null> {
-	// Get changed files
-	const changedFiles = await getChangedFiles($);
+	config: RufioConfig | undefined,
+	reportPath: string | null,
+): Promise<{ changedFiles: string[]; results: CheckResult[] }> {
+	// Get the files changed in this session, relative to the root of the repository containing it
+	const vcs = await detectVcs($, cwd, config?.vcs ?? "auto");
 	await client.app.log({
 		body: {
 			service: "rufio",
 			level: "info",
-			message: `changedFiles: ${JSON.stringify(changedFiles)}`,
+			message: vcs
+				? `vcs: ${vcs.backend.name} root=${vcs.root}`
+				: "vcs: none (changed files from the transcript)",
 		},
 	});
-	if (changedFiles.length === 0) {
-		return null;
+	const root = vcs?.root ?? cwd;
+	const withoutReport = (changes: FileChange[]) =>
+		changes.filter((c) => resolve(root, c.path) !== reportPath);
+	let changes: FileChange[] | null = null;
+	if (vcs) {
+		try {
+			changes = withoutReport(await getVcsChanges($, sessionID, vcs));
+		} catch (e) {
+			await client.app.log({
+				body: {
+					service: "rufio",
+					level: "warn",
+					message: `vcs error: ${formatError(e)}; using the transcript`,
+				},
+			});
+		}
+		if (changes?.length === 0) {
+			await logChangedFiles(client, changes);
+			return { changedFiles: [], results: [] };
+		}
 	}
 
 	// Get session messages for tool events
@@ -101,32 +459,115 @@ async function runStopChecks(
 				message: `messages error: ${JSON.stringify(messagesResult.error)}`,
 			},
 		});
-		return null;
+		return { changedFiles: changes?.map((c) => c.path) ?? [], results: [] };
 	}
 
 	const messages = messagesResult.data as MessageWithParts[];
-	const toolEvents = extractToolEvents(messages);
+	const transcriptEvents = mergeAttributedChanges(
+		extractToolEvents(messages, config?.tools?.aliases),
+		sessionBashChanges.get(sessionID) ?? new Map(),
+	);
+	// Relative to the same root as VCS changes, also when the VCS failed
+	changes ??= withoutReport(getTranscriptChanges(transcriptEvents, root));
+	await logChangedFiles(client, changes);
+	if (changes.length === 0) {
+		return { changedFiles: [], results: [] };
+	}
+	const configErrors = new Set<string>();
+	const evaluateOptions = {
+		onConfigError: (error: Error) => {
+			configErrors.add(error.message);
+		},
+		branch: vcs ? await vcs.backend.getBranch($, vcs.root) : undefined,
+	};
+	const autoRuns = sessionAutoRuns.get(sessionID) ?? [];
 
 	// Run checks from rufio.yaml configs
-	const checkError = runChecks(changedFiles, toolEvents, cwd);
+	let results = evaluateChecks(
+		changes,
+		mergeAutoRuns(transcriptEvents, autoRuns),
+		root,
+		evaluateOptions,
+	);
+
+	// Run missing commands for auto_run checks ourselves, then re-evaluate
+	const newRuns = await autoRunMissingCommands(
+		results.filter(isFailure),
+		transcriptEvents.length,
+	);
+	if (newRuns.length > 0) {
+		for (const run of newRuns) {
+			await client.app.log({
+				body: {
+					service: "rufio",
+					level: "info",
+					message: `autoRun: ${run.command} cwd=${run.cwd} exit=${run.exitCode}`,
+				},
+			});
+		}
+		const records = updateAutoRunRecords(autoRuns, newRuns);
+		sessionAutoRuns.set(sessionID, records);
+		results = evaluateChecks(
+			changes,
+			mergeAutoRuns(transcriptEvents, records),
+			root,
+			evaluateOptions,
+		);
+	}
+	await reportConfigErrors(client, sessionID, [...configErrors]);
+	return { changedFiles: changes.map((c) => c.path), results };
+}
+
+/**
+ * Runs all stop checks and returns the failing blocking checks (empty if none fail).
+ * Every evaluation writes the check report, if enabled, even when no files changed.
+ * Failures of warn and info checks are reported without a prompt.
+ */
+async function runStopChecks(
+	$: PluginInput["$"],
+	client: PluginInput["client"],
+	sessionID: string,
+	cwd: string,
+): Promise<CheckFailure[]> {
+	const config = getSessionConfig(cwd);
+	const reportPath = await getReportPath(
+		sessionID,
+		cwd,
+		config?.report,
+		client,
+	);
+	const { changedFiles, results } = await evaluateStopChecks(
+		$,
+		client,
+		sessionID,
+		cwd,
+		config,
+		reportPath,
+	);
+
+	const failures = results.filter(isFailure);
+	await saveReport(
+		reportPath,
+		buildReport(sessionID, changedFiles, results),
+		client,
+	);
 	await client.app.log({
 		body: {
 			service: "rufio",
 			level: "info",
-			message: `checkError: ${checkError}`,
+			message: `failedChecks: ${JSON.stringify(failures.map((f) => f.checkName))}`,
 		},
 	});
-	if (checkError) {
-		return checkError;
-	}
 
-	return null;
+	await reportNonBlocking(client, sessionID, failures);
+
+	return failures.filter(isBlocking);
 }
 
 /**
  * Rufio OpenCode Plugin
  *
- * Enforces lint checks before stopping.
+ * Enforces lint checks before stopping, and updates Zellij tab status.
  */
 export const RufioPlugin: Plugin = async ({ client, $, directory }) => {
 	// Shared logging helper
@@ -136,9 +577,119 @@ export const RufioPlugin: Plugin = async ({ client, $, directory }) => {
 		});
 	};
 
+	// Updates the Zellij tab for a session (no-op outside Zellij)
+	const setStatus = async (sessionID: string, state: TabState) => {
+		const sessionDir = await getSessionDirectory(client, sessionID, directory);
+		await setTabStatus($, sessionID, state, sessionDir, log);
+	};
+
 	return {
+		async "tool.execute.before"(input, output) {
+			const sessionDir = await getSessionDirectory(
+				client,
+				input.sessionID,
+				directory,
+			);
+			const config = getSessionConfig(sessionDir);
+			const denial = checkGuards(
+				extractToolCall(
+					input.tool,
+					output.args ?? {},
+					sessionDir,
+					config?.tools?.aliases,
+				),
+				sessionDir,
+				sessionBaselines.get(input.sessionID)?.root ?? sessionDir,
+			);
+			if (denial) {
+				await client.app.log({
+					body: {
+						service: "rufio",
+						level: "warn",
+						message: `guard: denied ${input.tool} ${input.callID} by '${denial.guardName}' (${denial.configPath})`,
+					},
+				});
+				// Throwing fails the tool call; the agent sees the message
+				throw new Error(denial.message);
+			}
+
+			if (!isBashTool(input.tool) || config?.track_bash_changes !== true) {
+				return;
+			}
+			const vcs = await detectVcs($, sessionDir, config.vcs ?? "auto");
+			const snapshot = vcs ? await takeSnapshot($, vcs) : null;
+			if (vcs && snapshot) {
+				pendingSnapshots.set(input.callID, { vcs, snapshot });
+			}
+		},
+
+		async "tool.execute.after"(input) {
+			const pending = pendingSnapshots.get(input.callID);
+			if (!pending) {
+				return;
+			}
+			pendingSnapshots.delete(input.callID);
+
+			const after = await takeSnapshot($, pending.vcs, pending.snapshot.keys());
+			if (!after) {
+				return;
+			}
+
+			const changed = diffSnapshots(pending.snapshot, after);
+			if (changed.length > 0) {
+				await log(
+					`tool.execute.after: ${input.tool} ${input.callID} changed ${JSON.stringify(changed)}`,
+				);
+				const changes = sessionBashChanges.get(input.sessionID) ?? new Map();
+				changes.set(input.callID, changed);
+				sessionBashChanges.set(input.sessionID, changes);
+			}
+		},
+
 		async event({ event }: { event: Event }) {
 			switch (event.type) {
+				case "session.status": {
+					const e = event as EventSessionStatus;
+					if (e.properties.status.type !== "idle") {
+						await setStatus(e.properties.sessionID, "working");
+					}
+					break;
+				}
+
+				case "session.created": {
+					const e = event as EventSessionCreated;
+					const { id, directory: sessionDir } = e.properties.info;
+					sessionDirectories.set(id, sessionDir);
+					await recordBaseline($, id, sessionDir);
+					break;
+				}
+
+				case "message.updated": {
+					const e = event as EventMessageUpdated;
+					const { id, role, sessionID } = e.properties.info;
+					if (role === "user" && !isNote(sessionID, id)) {
+						await recordBaseline(
+							$,
+							sessionID,
+							await getSessionDirectory(client, sessionID, directory),
+						);
+						await setStatus(sessionID, "working");
+					}
+					break;
+				}
+
+				case "permission.updated": {
+					const e = event as EventPermissionUpdated;
+					await setStatus(e.properties.sessionID, "permission");
+					break;
+				}
+
+				case "permission.replied": {
+					const e = event as EventPermissionReplied;
+					await setStatus(e.properties.sessionID, "working");
+					break;
+				}
+
 				case "session.idle": {
 					const e = event as EventSessionIdle;
 					const sessionID = e.properties.sessionID;
@@ -154,13 +705,37 @@ export const RufioPlugin: Plugin = async ({ client, $, directory }) => {
 					await log(`session.idle: ${sessionID} dir=${sessionDir}`);
 
 					// Run stop checks
-					const error = await runStopChecks($, client, sessionID, sessionDir);
-					if (error) {
+					const failures = await runStopChecks(
+						$,
+						client,
+						sessionID,
+						sessionDir,
+					);
+					const prompt = formatFailures(failures);
+					if (!prompt) {
+						sessionRetries.delete(sessionID);
+					}
+					await setTabStatus(
+						$,
+						sessionID,
+						prompt ? "failed" : "idle",
+						sessionDir,
+						log,
+					);
+					if (
+						prompt &&
+						(await allowReprompt(
+							client,
+							sessionID,
+							failures,
+							getSessionConfig(sessionDir)?.loop_protection ?? {},
+						))
+					) {
 						// Inject prompt to tell the assistant what to do
 						await client.session.prompt({
 							path: { id: sessionID },
 							body: {
-								parts: [{ type: "text", text: error }],
+								parts: [{ type: "text", text: prompt }],
 							},
 						});
 						return;
@@ -172,6 +747,15 @@ export const RufioPlugin: Plugin = async ({ client, $, directory }) => {
 					const e = event as EventSessionDeleted;
 					const sessionID = e.properties.info.id;
 					sessionDirectories.delete(sessionID);
+					sessionAutoRuns.delete(sessionID);
+					sessionBashChanges.delete(sessionID);
+					sessionBaselines.delete(sessionID);
+					sessionWarnings.delete(sessionID);
+					sessionConfigErrors.delete(sessionID);
+					sessionRetries.delete(sessionID);
+					sessionNotes.delete(sessionID);
+					pendingNotes.delete(sessionID);
+					await clearTabStatus($, sessionID, log);
 					break;
 				}
 			}
@@ -0,0 +1,136 @@
+/**
+ * Presets shipped with rufio, by name, as preset YAML.
+ * They are looked up last, so a repo-local or XDG preset of the same name replaces them.
+ * The pnpm and npm presets take their commands as parameters, since script names vary.
+ */
+export const BUILTIN_PRESETS: Record<string, string> = {
+	pnpm: `
+params:
+  lint_cmd: pnpm lint
+  typecheck_cmd: pnpm typecheck
+  test_cmd: pnpm test
+checks:
+  - name: pnpm-lint
+    when:
+      paths_changed: "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}"
+      path_exists: pnpm-lock.yaml
+    then:
+      ensure_commands: ["\${lint_cmd}"]
+  - name: pnpm-typecheck
+    when:
+      paths_changed: "**/*.{ts,tsx,mts,cts}"
+      path_exists: pnpm-lock.yaml
+    then:
+      ensure_commands: ["\${typecheck_cmd}"]
+  - name: pnpm-test
+    when:
+      paths_changed: "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}"
+      path_exists: pnpm-lock.yaml
+    then:
+      ensure_commands: ["\${test_cmd}"]
+`,
+	npm: `
+params:
+  lint_cmd: npm run lint
+  test_cmd: npm test
+checks:
+  - name: npm-lint
+    when:
+      paths_changed: "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}"
+      path_exists: package-lock.json
+    then:
+      ensure_commands: ["\${lint_cmd}"]
+  - name: npm-test
+    when:
+      paths_changed: "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}"
+      path_exists: package-lock.json
+    then:
+      ensure_commands: ["\${test_cmd}"]
+`,
+	cargo: `
+checks:
+  - name: cargo-fmt
+    when:
+      paths_changed: "**/*.rs"
+      path_exists: Cargo.toml
+    then:
+      ensure_commands: [cargo fmt]
+  - name: cargo-clippy
+    when:
+      paths_changed: "**/*.rs"
+      path_exists: Cargo.toml
+    then:
+      ensure_commands: [cargo clippy]
+  - name: cargo-test
+    when:
+      paths_changed: ["**/*.rs", "**/Cargo.toml"]
+      path_exists: Cargo.toml
+    then:
+      ensure_commands: [cargo test]
+`,
+	go: `
+checks:
+  - name: go-fmt
+    when:
+      paths_changed: "**/*.go"
+      path_exists: go.mod
+    then:
+      ensure_commands:
+        - any_of: [go fmt, gofmt]
+  - name: go-vet
+    when:
+      paths_changed: "**/*.go"
+      path_exists: go.mod
+    then:
+      ensure_commands: [go vet]
+  - name: go-test
+    when:
+      paths_changed: ["**/*.go", "**/go.mod"]
+      path_exists: go.mod
+    then:
+      ensure_commands: [go test]
+`,
+	nix: `
+checks:
+  - name: nix-fmt
+    when:
+      paths_changed: "**/*.nix"
+      path_exists: flake.nix
+    then:
+      ensure_commands: [nix fmt]
+  - name: nix-flake-check
+    when:
+      paths_changed: ["**/*.nix", "flake.lock"]
+      path_exists: flake.nix
+    then:
+      ensure_commands: [nix flake check]
+`,
+	python: `
+checks:
+  - name: python-ruff
+    when:
+      paths_changed: "**/*.py"
+    then:
+      ensure_commands: [ruff check]
+  - name: python-test
+    when:
+      paths_changed: "**/*.py"
+    then:
+      ensure_commands: [pytest]
+`,
+	uv: `
+checks:
+  - name: uv-ruff
+    when:
+      paths_changed: "**/*.py"
+      path_exists: uv.lock
+    then:
+      ensure_commands: [uv run ruff check]
+  - name: uv-test
+    when:
+      paths_changed: "**/*.py"
+      path_exists: uv.lock
+    then:
+      ensure_commands: [uv run pytest]
+`,
+};
@@ -0,0 +1,384 @@
+import { isAbsolute, resolve } from "node:path";
+
+/**
+ * A single program invocation parsed from a shell command
+ */
+export interface Invocation {
+	/** Arguments with wrappers (timeout, bash -c, nix develop -c, ...) removed */
+	argv: string[];
+	/** Normalized command line (argv joined by spaces) */
+	command: string;
+	/** Effective working directory, if known */
+	cwd?: string;
+}
+
+/** Token produced by the shell tokenizer */
+type Token = { type: "word"; value: string } | { type: "op"; value: string };
+
+/** Operators that separate commands */
+const SEPARATORS = new Set(["&&", "||", ";", "|", "&", "\n"]);
+
+/** Shells whose `-c` argument is parsed recursively */
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "fish"]);
+
+/** Wrappers that run the rest of their arguments as a command after skipping options */
+const PREFIX_WRAPPERS = new Set(["command", "exec", "nice", "nohup", "time"]);
+
+/** Maximum nesting depth for `bash -c` style recursion */
+const MAX_DEPTH = 5;
+
+/**
+ * Splits a shell command into words and operators.
+ * Handles single and double quotes, backslash escapes, and `&` in redirections.
+ */
+function tokenize(command: string): Token[] {
+	const tokens: Token[] = [];
+	let word = "";
+	let inWord = false;
+	let quote: string | null = null;
+
+	const endWord = () => {
+		if (inWord) {
+			tokens.push({ type: "word", value: word });
+		}
+		word = "";
+		inWord = false;
+	};
+
+	for (let i = 0; i < command.length; i++) {
+		const char = command[i];
+
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			} else if (
+				char === "\\" &&
+				quote === '"' &&
+				'"\\$`'.includes(command[i + 1])
+			) {
+				word += command[++i];
+			} else {
+				word += char;
+			}
+			continue;
+		}
+
+		if (char === "'" || char === '"') {
+			quote = char;
+			inWord = true;
+			continue;
+		}
+		if (char === "\\" && i + 1 < command.length) {
+			if (command[i + 1] !== "\n") {
+				word += command[i + 1];
+				inWord = true;
+			}
+			i++;
+			continue;
+		}
+		if (char === "#" && !inWord) {
+			// Comment runs to the end of the line
+			while (i + 1 < command.length && command[i + 1] !== "\n") {
+				i++;
+			}
+			continue;
+		}
+		if (char === " " || char === "\t") {
+			endWord();
+			continue;
+		}
+
+		const two = command.slice(i, i + 2);
+		if (two === "&&" || two === "||") {
+			endWord();
+			tokens.push({ type: "op", value: two });
+			i++;
+			continue;
+		}
+		// `&` in redirections like `2>&1` and `&>` belongs to the word
+		if (char === "&" && (command[i - 1] === ">" || command[i + 1] === ">")) {
+			word += char;
+			inWord = true;
+			continue;
+		}
+		if (
+			char === ";" ||
+			char === "|" ||
+			char === "&" ||
+			char === "\n" ||
+			char === "(" ||
+			char === ")"
+		) {
+			endWord();
+			tokens.push({ type: "op", value: char });
+			continue;
+		}
+
+		word += char;
+		inWord = true;
+	}
+	endWord();
+
+	return tokens;
+}
+
+/**
+ * Groups tokens into simple commands, tracking subshell parentheses.
+ * Each entry holds the words of one command and the stack of subshell
+ * scopes it runs in (0 is the top level).
+ */
+function splitSimpleCommands(
+	tokens: Token[],
+): { words: string[]; scopes: number[] }[] {
+	const commands: { words: string[]; scopes: number[] }[] = [];
+	let words: string[] = [];
+	const scopes = [0];
+	let nextScope = 1;
+
+	const flush = () => {
+		if (words.length > 0) {
+			commands.push({ words, scopes: [...scopes] });
+		}
+		words = [];
+	};
+
+	for (const token of tokens) {
+		if (token.type === "word") {
+			words.push(token.value);
+		} else if (token.value === "(") {
+			flush();
+			scopes.push(nextScope++);
+		} else if (token.value === ")") {
+			flush();
+			if (scopes.length > 1) {
+				scopes.pop();
+			}
+		} else if (SEPARATORS.has(token.value)) {
+			flush();
+		}
+	}
+	flush();
+
+	return commands;
+}
+
+/**
+ * Removes redirections (`2>&1`, `> out.txt`, `<in`) from a command's words
+ */
+function stripRedirections(words: string[]): string[] {
+	const result: string[] = [];
+	for (let i = 0; i < words.length; i++) {
+		const word = words[i];
+		if (/^(\d*|&)(>>?|<)$/.test(word)) {
+			// Operator with a separate target word
+			i++;
+		} else if (!/^(\d*|&)(>>?|<)/.test(word)) {
+			result.push(word);
+		}
+	}
+	return result;
+}
+
+/** Resolves a directory argument against the current cwd, if possible */
+function resolveDir(dir: string, cwd: string | undefined): string | undefined {
+	if (isAbsolute(dir)) {
+		return resolve(dir);
+	}
+	return cwd ? resolve(cwd, dir) : undefined;
+}
+
+/**
+ * Removes wrappers from an argv, returning the inner argv and its cwd.
+ * Returns a nested command string instead when the wrapper runs a shell script.
+ */
+function unwrap(
+	argv: string[],
+	cwd: string | undefined,
+): { argv: string[]; cwd?: string } | { script: string; cwd?: string } {
+	let args = argv;
+	let dir = cwd;
+
+	for (;;) {
+		// Strip leading environment assignments (FOO=bar cmd)
+		while (args.length > 1 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(args[0])) {
+			args = args.slice(1);
+		}
+
+		const [program, ...rest] = args;
+		if (program === undefined) {
+			return { argv: args, cwd: dir };
+		}
+
+		if (SHELLS.has(program)) {
+			const flagIndex = rest.findIndex((a) => /^-[a-z]*c[a-z]*$/.test(a));
+			if (flagIndex !== -1 && rest[flagIndex + 1] !== undefined) {
+				return { script: rest[flagIndex + 1], cwd: dir };
+			}
+			return { argv: args, cwd: dir };
+		}
+
+		if (program === "env") {
+			let i = 0;
+			while (i < rest.length) {
+				const arg = rest[i];
+				if (arg === "-C" || arg === "--chdir") {
+					dir = resolveDir(rest[i + 1] ?? "", dir);
+					i += 2;
+				} else if (arg.startsWith("-") || arg.includes("=")) {
+					i++;
+				} else {
+					break;
+				}
+			}
+			args = rest.slice(i);
+			continue;
+		}
+
+		if (program === "timeout") {
+			// timeout [options] DURATION COMMAND...
+			let i = 0;
+			while (i < rest.length && rest[i].startsWith("-")) {
+				i += rest[i] === "-s" || rest[i] === "-k" ? 2 : 1;
+			}
+			args = rest.slice(i + 1);
+			continue;
+		}
+
+		if (PREFIX_WRAPPERS.has(program)) {
+			let i = 0;
+			while (i < rest.length && rest[i].startsWith("-")) {
+				i += program === "nice" && rest[i] === "-n" ? 2 : 1;
+			}
+			args = rest.slice(i);
+			continue;
+		}
+
+		if (program === "nix" && rest[0] === "develop") {
+			const flagIndex = rest.findIndex((a) => a === "-c" || a === "--command");
+			if (flagIndex === -1) {
+				return { argv: args, cwd: dir };
+			}
+			args = rest.slice(flagIndex + 1);
+			continue;
+		}
+
+		if (program === "nix-shell") {
+			const flagIndex = rest.indexOf("--run");
+			if (flagIndex !== -1 && rest[flagIndex + 1] !== undefined) {
+				return { script: rest[flagIndex + 1], cwd: dir };
+			}
+			return { argv: args, cwd: dir };
+		}
+
+		if (program === "direnv" && rest[0] === "exec" && rest.length > 2) {
+			dir = resolveDir(rest[1], dir);
+			args = rest.slice(2);
+			continue;
+		}
+
+		return normalizeDirFlags(args, dir);
+	}
+}
+
+/**
+ * Options that change a tool's working directory, by program.
+ * The option and its value are removed from argv and applied to the cwd.
+ */
+const DIR_FLAGS: Record<string, string[]> = {
+	pnpm: ["-C", "--dir"],
+	npm: ["--prefix"],
+	yarn: ["--cwd"],
+	make: ["-C", "--directory"],
+	git: ["-C"],
+	just: ["-d", "--working-directory"],
+};
+
+/**
+ * Applies directory flags like `pnpm -C packages/foo test` to the cwd
+ */
+function normalizeDirFlags(
+	argv: string[],
+	cwd: string | undefined,
+): { argv: string[]; cwd?: string } {
+	const flags = DIR_FLAGS[argv[0]];
+	if (!flags) {
+		return { argv, cwd };
+	}
+
+	const result = [argv[0]];
+	let dir = cwd;
+	for (let i = 1; i < argv.length; i++) {
+		const arg = argv[i];
+		const inline = flags.find(
+			(f) => f.startsWith("--") && arg.startsWith(`${f}=`),
+		);
+		if (inline) {
+			dir = resolveDir(arg.slice(inline.length + 1), dir);
+		} else if (flags.includes(arg) && argv[i + 1] !== undefined) {
+			dir = resolveDir(argv[++i], dir);
+		} else {
+			result.push(arg);
+		}
+	}
+	return { argv: result, cwd: dir };
+}
+
+/**
+ * Parses a shell command into the program invocations it runs.
+ * Tracks `cd` to compute each invocation's working directory, and unwraps
+ * wrappers like `timeout`, `env`, `bash -c` and `nix develop -c`.
+ *
+ * @param command - The shell command, as passed to the Bash tool
+ * @param cwd - Directory the command starts in, if known
+ */
+export function parseCommand(command: string, cwd?: string): Invocation[] {
+	return parseWithDepth(command, cwd, 0);
+}
+
+function parseWithDepth(
+	command: string,
+	startCwd: string | undefined,
+	depth: number,
+): Invocation[] {
+	const invocations: Invocation[] = [];
+	// Directory per subshell scope, so `(cd x && y)` does not leak
+	const scopeCwds = new Map<number, string | undefined>([[0, startCwd]]);
+
+	for (const { words, scopes } of splitSimpleCommands(tokenize(command))) {
+		// Innermost scope that has changed directory, else the enclosing ones
+		const scope = [...scopes].reverse().find((s) => scopeCwds.has(s)) ?? 0;
+		const cwd = scopeCwds.get(scope);
+
+		const unwrapped = unwrap(stripRedirections(words), cwd);
+		if ("script" in unwrapped) {
+			if (depth < MAX_DEPTH) {
+				invocations.push(
+					...parseWithDepth(unwrapped.script, unwrapped.cwd, depth + 1),
+				);
+			}
+			continue;
+		}
+
+		const [program, target] = unwrapped.argv;
+		if (program === "cd" || program === "pushd") {
+			scopeCwds.set(
+				scopes[scopes.length - 1],
+				target === undefined || target === "-" || target.startsWith("~")
+					? undefined
+					: resolveDir(target, unwrapped.cwd),
+			);
+			continue;
+		}
+		if (unwrapped.argv.length === 0) {
+			continue;
+		}
+
+		invocations.push({
+			argv: unwrapped.argv,
+			command: unwrapped.argv.join(" "),
+			cwd: unwrapped.cwd,
+		});
+	}
+
+	return invocations;
+}
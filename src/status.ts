@@ -0,0 +1,111 @@
+import { basename } from "node:path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { getSessionConfig, type StatusConfig } from "./config.js";
+
+/**
+ * Session states shown in the Zellij tab name
+ */
+export type TabState = "working" | "idle" | "failed" | "permission";
+
+const DEFAULT_TAB_FORMAT = "{status} {project}";
+
+const DEFAULT_LABELS: Record<TabState, string> = {
+	working: "●",
+	idle: "✓",
+	failed: "✗",
+	permission: "?",
+};
+
+/**
+ * Last state reported by each session, in order of update.
+ * The tab shows the most recently updated session.
+ */
+const sessionStates = new Map<string, { state: TabState; dir: string }>();
+
+/** Tab name most recently written, to avoid redundant renames */
+let currentTabName: string | null = null;
+
+/**
+ * Whether we are running inside a Zellij session
+ */
+export function isZellij(env: NodeJS.ProcessEnv = process.env): boolean {
+	return Boolean(env.ZELLIJ);
+}
+
+/**
+ * Renders a tab name from a format string.
+ * Supported placeholders: {status} (state label) and {project} (session directory name).
+ */
+export function formatTabName(
+	state: TabState,
+	dir: string,
+	status?: StatusConfig,
+): string {
+	const format = status?.tab_format ?? DEFAULT_TAB_FORMAT;
+	const label = status?.labels?.[state] ?? DEFAULT_LABELS[state];
+	return format
+		.replaceAll("{status}", label)
+		.replaceAll("{project}", basename(dir))
+		.trim();
+}
+
+/**
+ * Records a session's state and renames the current Zellij tab to match.
+ * No-op outside Zellij.
+ */
+export async function setTabStatus(
+	$: PluginInput["$"],
+	sessionID: string,
+	state: TabState,
+	dir: string,
+	log?: (message: string) => Promise<void>,
+): Promise<void> {
+	if (!isZellij()) {
+		return;
+	}
+
+	// Re-insert so the most recently updated session is last
+	sessionStates.delete(sessionID);
+	sessionStates.set(sessionID, { state, dir });
+
+	const name = formatTabName(state, dir, getSessionConfig(dir)?.status);
+	if (name === currentTabName) {
+		return;
+	}
+
+	try {
+		await $`zellij action rename-tab ${name}`.quiet();
+		currentTabName = name;
+	} catch (e) {
+		await log?.(`setTabStatus: rename-tab failed: ${String(e)}`);
+	}
+}
+
+/**
+ * Forgets a session and updates the tab.
+ * When no sessions remain, the original tab name is restored.
+ */
+export async function clearTabStatus(
+	$: PluginInput["$"],
+	sessionID: string,
+	log?: (message: string) => Promise<void>,
+): Promise<void> {
+	if (!isZellij() || !sessionStates.delete(sessionID)) {
+		return;
+	}
+
+	// Fall back to the most recently updated remaining session
+	const remaining = [...sessionStates.entries()].at(-1);
+	if (remaining) {
+		const [otherID, { state, dir }] = remaining;
+		await setTabStatus($, otherID, state, dir, log);
+		return;
+	}
+
+	try {
+		await $`zellij action undo-rename-tab`.quiet();
+		currentTabName = null;
+	} catch (e) {
+		await log?.(`clearTabStatus: undo-rename-tab failed: ${String(e)}`);
+	}
+}
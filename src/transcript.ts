@@ -1,4 +1,9 @@
+import { existsSync } from "node:fs";
+import { isAbsolute, join, relative, resolve } from "node:path";
 import type { Message, Part, ToolPart } from "@opencode-ai/sdk";
+import type { CommandPattern } from "./config.js";
+import { type Invocation, parseCommand } from "./shell.js";
+import type { FileChange } from "./vcs/backend.js";
 
 /**
  * Represents a tool event extracted from the session transcript
@@ -6,8 +11,27 @@ import type { Message, Part, ToolPart } from "@opencode-ai/sdk";
 export interface ToolEvent {
 	toolName: string;
 	command?: string;
+	/** First file touched by the event (see filePaths) */
 	filePath?: string;
+	/** Every file touched by the event, e.g. all files in a patch */
+	filePaths?: string[];
 	index: number;
+	/** Tool state at extraction time (absent means completed) */
+	status?: "running" | "completed" | "error";
+	/** Exit code reported by the Bash tool, if known */
+	exitCode?: number;
+	/** Tool output (or error text) from the completed state */
+	output?: string;
+	/** Command was run by rufio itself (auto_run), not by the agent */
+	autoRun?: boolean;
+	/** Directory the Bash command starts in, if known */
+	workdir?: string;
+	/** Programs the Bash command runs, unwrapped and with their working directories */
+	invocations?: Invocation[];
+	/** ID of the tool call in the transcript */
+	callID?: string;
+	/** For edits detected from working tree changes, the tool that made them */
+	attributedTo?: string;
 }
 
 /**
@@ -18,19 +42,249 @@ export interface MessageWithParts {
 	parts: Part[];
 }
 
+/**
+ * Extracts the tool-specific fields of an event from a tool call
+ */
+export type ToolExtractor = (
+	input: Record<string, unknown>,
+	state: Exclude<ToolPart["state"], { status: "pending" }>,
+	cwd: string | undefined,
+) => Omit<ToolEvent, "index" | "toolName" | "status">;
+
+/**
+ * Maps a tool to the event it produces
+ */
+export interface ToolAdapter {
+	/** Normalized tool name used in events ("Bash", "Edit", "Write", ...) */
+	toolName: string;
+	extract: ToolExtractor;
+}
+
+/** Registered adapters, keyed by lowercase tool name */
+const toolAdapters = new Map<string, ToolAdapter>();
+
+/**
+ * Registers an adapter for one or more tool names (case-insensitive).
+ * Later registrations replace earlier ones.
+ */
+export function registerToolAdapter(
+	names: string[],
+	adapter: ToolAdapter,
+): void {
+	for (const name of names) {
+		toolAdapters.set(name.toLowerCase(), adapter);
+	}
+}
+
+/** Resolves a path from a tool input against the tool's working directory */
+function resolveToolPath(path: string, cwd: string | undefined): string {
+	return cwd && !isAbsolute(path) ? resolve(cwd, path) : path;
+}
+
+/** Builds file path fields from a list of paths */
+function withPaths(
+	paths: (string | undefined)[],
+	cwd: string | undefined,
+): Pick<ToolEvent, "filePath" | "filePaths"> {
+	const filePaths = paths
+		.filter((p): p is string => typeof p === "string" && p.length > 0)
+		.map((p) => resolveToolPath(p, cwd));
+	return { filePath: filePaths[0], filePaths };
+}
+
+/** File marker of the envelope patch format */
+const ENVELOPE_FILE =
+	/^\*\*\* (?:Add|Update|Delete) File: (.+)$|^\*\*\* Move to: (.+)$/;
+
+/**
+ * Extracts the files touched by a patch.
+ * Supports unified diffs (`--- a/x`, `+++ b/x`) and the `*** Update File: x`
+ * envelope format used by patch/apply_patch tools.
+ */
+export function parsePatchPaths(patch: string): string[] {
+	const lines = patch.split("\n");
+	if (lines.some((line) => ENVELOPE_FILE.test(line))) {
+		return [
+			...new Set(
+				lines.flatMap((line) => {
+					const envelope = line.match(ENVELOPE_FILE);
+					return envelope ? [(envelope[1] ?? envelope[2]).trim()] : [];
+				}),
+			),
+		];
+	}
+	return parseUnifiedDiffPaths(lines);
+}
+
+/** Reads the path of a `---` or `+++` file header, or null for /dev/null */
+function headerPath(line: string): string | null {
+	const path = line.slice(4).replace(/\t.*$/, "").trim();
+	return path === "/dev/null" ? null : path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Extracts the files of a unified diff from its `---`/`+++` header pairs.
+ * Hunk bodies are skipped using the line counts of their `@@` headers, so
+ * removed or added lines that start with `--` or `++` are not mistaken for headers.
+ */
+function parseUnifiedDiffPaths(lines: string[]): string[] {
+	const paths = new Set<string>();
+	// Lines left in the current hunk; null when its header has no counts
+	let hunk: { old: number; new: number } | null | undefined;
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		if (line.startsWith("diff --git ")) {
+			hunk = undefined;
+			continue;
+		}
+		const header = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+		if (header) {
+			hunk = { old: Number(header[1] ?? 1), new: Number(header[2] ?? 1) };
+		} else if (line.startsWith("@@")) {
+			hunk = null;
+		} else if (hunk) {
+			if (line.startsWith("-")) {
+				hunk.old--;
+			} else if (line.startsWith("+")) {
+				hunk.new--;
+			} else if (!line.startsWith("\\")) {
+				hunk.old--;
+				hunk.new--;
+			}
+			if (hunk.old <= 0 && hunk.new <= 0) {
+				hunk = undefined;
+			}
+		} else if (
+			hunk === undefined &&
+			line.startsWith("--- ") &&
+			lines[i + 1]?.startsWith("+++ ")
+		) {
+			for (const path of [headerPath(line), headerPath(lines[++i])]) {
+				if (path) {
+					paths.add(path);
+				}
+			}
+		}
+	}
+	return [...paths];
+}
+
+/** Extracts a file path field from a tool input */
+function stringInput(
+	input: Record<string, unknown>,
+	...keys: string[]
+): string | undefined {
+	for (const key of keys) {
+		if (typeof input[key] === "string") {
+			return input[key] as string;
+		}
+	}
+	return undefined;
+}
+
+const bashAdapter: ToolAdapter = {
+	toolName: "Bash",
+	extract: (input, state, cwd) => {
+		const command = input.command as string | undefined;
+		const workdir = (input.workdir as string | undefined) ?? cwd;
+		const exit = state.metadata?.exit;
+		return {
+			command,
+			workdir,
+			invocations: command ? parseCommand(command, workdir) : undefined,
+			exitCode: typeof exit === "number" ? exit : undefined,
+			output:
+				state.status === "completed"
+					? state.output
+					: state.status === "error"
+						? state.error
+						: undefined,
+		};
+	},
+};
+
+const editAdapter: ToolAdapter = {
+	toolName: "Edit",
+	extract: (input, _state, cwd) =>
+		withPaths([stringInput(input, "filePath", "path")], cwd),
+};
+
+const writeAdapter: ToolAdapter = {
+	toolName: "Write",
+	extract: (input, _state, cwd) =>
+		withPaths([stringInput(input, "filePath", "path")], cwd),
+};
+
+const patchAdapter: ToolAdapter = {
+	toolName: "Edit",
+	extract: (input, _state, cwd) => {
+		const patch = stringInput(input, "patchText", "patch", "input", "diff");
+		return withPaths(patch ? parsePatchPaths(patch) : [], cwd);
+	},
+};
+
+const readAdapter: ToolAdapter = {
+	toolName: "Read",
+	extract: (input, _state, cwd) =>
+		withPaths([stringInput(input, "filePath", "path")], cwd),
+};
+
+const moveAdapter: ToolAdapter = {
+	toolName: "Write",
+	extract: (input, _state, cwd) =>
+		withPaths(
+			[
+				stringInput(input, "source", "from"),
+				stringInput(input, "destination", "to"),
+			],
+			cwd,
+		),
+};
+
+registerToolAdapter(["bash"], bashAdapter);
+registerToolAdapter(["edit", "multiedit", "edit_file"], editAdapter);
+registerToolAdapter(["write", "write_file", "create_file"], writeAdapter);
+registerToolAdapter(["patch", "apply_patch"], patchAdapter);
+registerToolAdapter(["move_file"], moveAdapter);
+registerToolAdapter(["read", "read_file"], readAdapter);
+
+/**
+ * Finds the adapter for a tool name.
+ * Aliases map extra names to registered ones; an `mcp_` prefix is ignored.
+ */
+function findToolAdapter(
+	toolName: string,
+	aliases: Record<string, string>,
+): ToolAdapter | undefined {
+	const alias = aliases[toolName]?.toLowerCase() ?? toolName;
+	return (
+		toolAdapters.get(alias) ?? toolAdapters.get(alias.replace(/^mcp_/, ""))
+	);
+}
+
 /**
  * Extracts tool events from session messages.
  * Returns events in order of appearance.
+ *
+ * @param aliases - Extra tool names mapped to registered ones (e.g. `fs_write: write`)
  */
-export function extractToolEvents(messages: MessageWithParts[]): ToolEvent[] {
+export function extractToolEvents(
+	messages: MessageWithParts[],
+	aliases: Record<string, string> = {},
+): ToolEvent[] {
 	const events: ToolEvent[] = [];
 	let index = 0;
+	const normalizedAliases = Object.fromEntries(
+		Object.entries(aliases).map(([k, v]) => [k.toLowerCase(), v]),
+	);
 
 	for (const message of messages) {
+		// Assistant messages record the directory their tools run in
+		const cwd = "path" in message.info ? message.info.path.cwd : undefined;
 		for (const part of message.parts) {
 			if (part.type === "tool") {
 				const toolPart = part as ToolPart;
-				const event = extractToolEvent(toolPart, index);
+				const event = extractToolEvent(toolPart, index, cwd, normalizedAliases);
 				if (event) {
 					events.push(event);
 					index++;
@@ -42,54 +296,106 @@ export function extractToolEvents(messages: MessageWithParts[]): ToolEvent[] {
 	return events;
 }
 
-function extractToolEvent(part: ToolPart, index: number): ToolEvent | null {
+function extractToolEvent(
+	part: ToolPart,
+	index: number,
+	cwd: string | undefined,
+	aliases: Record<string, string>,
+): ToolEvent | null {
 	// Normalize tool name to lowercase for case-insensitive matching
 	const toolName = part.tool.toLowerCase();
 
-	// Only process completed tools
-	if (part.state.status !== "completed" && part.state.status !== "running") {
+	// Pending tools have not started yet, skip them
+	const state = part.state;
+	if (state.status === "pending") {
 		return null;
 	}
 
-	const input = part.state.input;
-
-	// Handle Bash tool
-	if (toolName === "bash" || toolName === "mcp_bash") {
-		const command = input?.command as string | undefined;
+	const adapter = findToolAdapter(toolName, aliases);
+	if (adapter) {
 		return {
-			toolName: "Bash",
-			command,
+			toolName: adapter.toolName,
 			index,
+			callID: part.callID,
+			status: state.status,
+			...adapter.extract(state.input ?? {}, state, cwd),
 		};
 	}
 
-	// Handle Edit tool
-	if (toolName === "edit" || toolName === "mcp_edit") {
-		const filePath = input?.filePath as string | undefined;
-		return {
-			toolName: "Edit",
-			filePath,
-			index,
-		};
-	}
+	// Return generic event for other tools (capitalize for consistency with known tools)
+	return {
+		toolName: toolName.charAt(0).toUpperCase() + toolName.slice(1),
+		index,
+		callID: part.callID,
+	};
+}
 
-	// Handle Write tool
-	if (toolName === "write" || toolName === "mcp_write") {
-		const filePath = input?.filePath as string | undefined;
+/**
+ * Builds the event for a tool call that is about to run, e.g. to guard it.
+ * Tools without an adapter yield an event with only their name.
+ *
+ * @param cwd - Directory relative tool paths are resolved against
+ * @param aliases - Extra tool names mapped to registered ones (e.g. `fs_write: write`)
+ */
+export function extractToolCall(
+	tool: string,
+	input: Record<string, unknown>,
+	cwd: string,
+	aliases: Record<string, string> = {},
+): ToolEvent {
+	const toolName = tool.toLowerCase();
+	const normalizedAliases = Object.fromEntries(
+		Object.entries(aliases).map(([k, v]) => [k.toLowerCase(), v]),
+	);
+	const adapter = findToolAdapter(toolName, normalizedAliases);
+	if (!adapter) {
 		return {
-			toolName: "Write",
-			filePath,
-			index,
+			toolName: toolName.charAt(0).toUpperCase() + toolName.slice(1),
+			index: 0,
 		};
 	}
-
-	// Return generic event for other tools (capitalize for consistency with known tools)
 	return {
-		toolName: toolName.charAt(0).toUpperCase() + toolName.slice(1),
-		index,
+		toolName: adapter.toolName,
+		index: 0,
+		status: "running",
+		...adapter.extract(
+			input,
+			{ status: "running", input, time: { start: Date.now() } },
+			cwd,
+		),
 	};
 }
 
+/**
+ * All file paths touched by an Edit or Write event
+ */
+export function getEditedPaths(event: ToolEvent): string[] {
+	if (event.toolName !== "Edit" && event.toolName !== "Write") {
+		return [];
+	}
+	return event.filePaths ?? (event.filePath ? [event.filePath] : []);
+}
+
+/**
+ * Lists the files edited in the transcript as changes relative to a directory.
+ * Used instead of version control when none is available; files outside `dir` are left out.
+ */
+export function getTranscriptChanges(
+	events: ToolEvent[],
+	dir: string,
+): FileChange[] {
+	const paths = new Set(
+		events
+			.flatMap(getEditedPaths)
+			.map((path) => relative(dir, resolve(dir, path)))
+			.filter((path) => path && !path.startsWith("..")),
+	);
+	return [...paths].map((path) => ({
+		path,
+		kind: existsSync(join(dir, path)) ? "modified" : "deleted",
+	}));
+}
+
 /**
  * Finds the index of the last Edit or Write to a file matching the given predicate.
  * Returns -1 if no matching edit is found.
@@ -101,11 +407,7 @@ export function findLastEditIndex(
 	let lastIndex = -1;
 
 	for (const event of events) {
-		if (
-			(event.toolName === "Edit" || event.toolName === "Write") &&
-			event.filePath &&
-			fileMatcher(event.filePath)
-		) {
+		if (getEditedPaths(event).some(fileMatcher)) {
 			lastIndex = event.index;
 		}
 	}
@@ -113,19 +415,192 @@ export function findLastEditIndex(
 	return lastIndex;
 }
 
+/**
+ * Whether a tool event finished successfully.
+ * Events without a status are treated as completed; a missing exit code is treated as success.
+ */
+export function didSucceed(event: ToolEvent): boolean {
+	if (event.status === "running" || event.status === "error") {
+		return false;
+	}
+	return event.exitCode === undefined || event.exitCode === 0;
+}
+
+/**
+ * Splits a compound shell command into its segments.
+ * Separators are `&&`, `||`, `;`, `|`, `&` and newlines outside of quotes.
+ */
+export function splitCommandSegments(command: string): string[] {
+	const segments: string[] = [];
+	let current = "";
+	let quote: string | null = null;
+
+	for (let i = 0; i < command.length; i++) {
+		const char = command[i];
+		if (quote) {
+			if (char === "\\" && quote === '"' && i + 1 < command.length) {
+				current += char + command[++i];
+				continue;
+			}
+			if (char === quote) {
+				quote = null;
+			}
+			current += char;
+			continue;
+		}
+		if (char === "\\" && i + 1 < command.length) {
+			current += char + command[++i];
+			continue;
+		}
+		if (char === '"' || char === "'") {
+			quote = char;
+			current += char;
+			continue;
+		}
+		// `&` in redirections like `2>&1` and `&>` is not a separator
+		const isRedirect =
+			char === "&" && (command[i - 1] === ">" || command[i + 1] === ">");
+		if (
+			!isRedirect &&
+			(char === ";" || char === "\n" || char === "|" || char === "&")
+		) {
+			// Consume the second character of && and ||
+			if ((char === "|" || char === "&") && command[i + 1] === char) {
+				i++;
+			}
+			segments.push(current);
+			current = "";
+			continue;
+		}
+		current += char;
+	}
+	segments.push(current);
+
+	return segments.map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Checks whether a Bash command matches an ensure_commands pattern.
+ * Plain strings match anywhere in the command; regex and exact patterns
+ * must match a whole segment of a compound command.
+ */
+export function matchesCommandPattern(
+	command: string,
+	pattern: CommandPattern,
+	segments: string[] = splitCommandSegments(command),
+): boolean {
+	if (typeof pattern === "string") {
+		return command.includes(pattern);
+	}
+	if ("any_of" in pattern) {
+		return pattern.any_of.some((p) =>
+			matchesCommandPattern(command, p, segments),
+		);
+	}
+
+	if ("regex" in pattern) {
+		const regex = new RegExp(pattern.regex);
+		return segments.some((segment) => regex.test(segment));
+	}
+	return segments.some((segment) => segment === pattern.exact.trim());
+}
+
+/**
+ * Human-readable form of an ensure_commands pattern, for messages
+ */
+export function describeCommandPattern(pattern: CommandPattern): string {
+	if (typeof pattern === "string") {
+		return pattern;
+	}
+	if ("any_of" in pattern) {
+		return pattern.any_of.map(describeCommandPattern).join(" or ");
+	}
+	if ("regex" in pattern) {
+		return `/${pattern.regex}/`;
+	}
+	return pattern.exact;
+}
+
+/**
+ * Whether a directory is the given directory or one of its ancestors
+ */
+function isSameOrAncestor(dir: string, of: string): boolean {
+	const rel = relative(dir, of);
+	return !rel.startsWith("..") && !rel.startsWith("/");
+}
+
+/**
+ * Checks whether a Bash event ran a command matching the pattern.
+ * The raw command and its unwrapped invocations are both considered, so
+ * `timeout 300 pnpm test` matches `{ exact: "pnpm test" }`.
+ * With `cwd`, only invocations that ran in that directory or above it count.
+ */
+export function eventMatches(
+	event: ToolEvent,
+	pattern: CommandPattern,
+	cwd?: string,
+): boolean {
+	const command = event.command;
+	if (!command) {
+		return false;
+	}
+	const invocations = event.invocations ?? [];
+
+	if (cwd) {
+		return invocations.some(
+			(invocation) =>
+				invocation.cwd !== undefined &&
+				isSameOrAncestor(invocation.cwd, cwd) &&
+				matchesCommandPattern(invocation.command, pattern, [
+					invocation.command,
+				]),
+		);
+	}
+
+	const segments = [
+		...splitCommandSegments(command),
+		...invocations.map((invocation) => invocation.command),
+	];
+	return (
+		matchesCommandPattern(command, pattern, segments) ||
+		invocations.some((invocation) =>
+			matchesCommandPattern(invocation.command, pattern, segments),
+		)
+	);
+}
+
+/**
+ * Finds the most recent Bash event matching any of the patterns that ran after the given index.
+ * Returns undefined if no such command was run.
+ *
+ * @param cwd - If set, the command must have run in this directory or one of its ancestors
+ */
+export function findLastCommandRunAfter(
+	events: ToolEvent[],
+	patterns: CommandPattern[],
+	afterIndex: number,
+	cwd?: string,
+): ToolEvent | undefined {
+	let last: ToolEvent | undefined;
+	for (const event of events) {
+		if (
+			event.toolName === "Bash" &&
+			event.index > afterIndex &&
+			patterns.some((pattern) => eventMatches(event, pattern, cwd))
+		) {
+			last = event;
+		}
+	}
+	return last;
+}
+
 /**
  * Checks if a command matching any of the patterns was run after the given index.
  */
 export function wasCommandRunAfter(
 	events: ToolEvent[],
-	patterns: string[],
+	patterns: CommandPattern[],
 	afterIndex: number,
 ): boolean {
-	return events.some(
-		(event) =>
-			event.toolName === "Bash" &&
-			event.command &&
-			event.index > afterIndex &&
-			patterns.some((pattern) => event.command?.includes(pattern)),
-	);
+	return findLastCommandRunAfter(events, patterns, afterIndex) !== undefined;
 }
@@ -0,0 +1,375 @@
+import {
+	isMap,
+	isScalar,
+	isSeq,
+	LineCounter,
+	type Node,
+	parseDocument,
+} from "yaml";
+import hooksSchema from "./schema/rufio-hooks.schema.json" with {
+	type: "json",
+};
+import presetSchema from "./schema/rufio-preset.schema.json" with {
+	type: "json",
+};
+
+/**
+ * Which schema a file is validated against
+ */
+export type SchemaKind = "config" | "preset";
+
+/**
+ * A problem found in a config or preset file
+ */
+export interface ValidationIssue {
+	/** Location of the offending value, e.g. `checks[0].then.ensure_commands` */
+	path: string;
+	message: string;
+	/** 1-based line of the offending key or value, if known */
+	line?: number;
+	/** 1-based column of the offending key or value, if known */
+	column?: number;
+}
+
+/**
+ * The subset of JSON Schema used by the bundled schemas
+ */
+interface Schema {
+	$ref?: string;
+	type?: string;
+	description?: string;
+	properties?: Record<string, Schema>;
+	required?: string[];
+	additionalProperties?: boolean | Schema;
+	items?: Schema;
+	anyOf?: Schema[];
+	enum?: unknown[];
+	minItems?: number;
+	minLength?: number;
+	minimum?: number;
+	exclusiveMinimum?: number;
+	$defs?: Record<string, Schema>;
+}
+
+/** Bundled schemas by file name, for resolving `$ref`s between them */
+const SCHEMAS: Record<string, Schema> = {
+	"rufio-hooks.schema.json": hooksSchema as Schema,
+	"rufio-preset.schema.json": presetSchema as Schema,
+};
+
+const SCHEMA_FILES: Record<SchemaKind, string> = {
+	config: "rufio-hooks.schema.json",
+	preset: "rufio-preset.schema.json",
+};
+
+/** Path segments from the document root: keys and sequence indexes */
+type Path = (string | number)[];
+
+/** An issue before it is located in the source */
+interface RawIssue {
+	path: Path;
+	message: string;
+	/** Point at the key rather than its value (unknown keys) */
+	atKey?: boolean;
+}
+
+/** Resolves a `$ref` like `#/$defs/check` or `other.schema.json#/$defs/check` */
+function resolveRef(
+	ref: string,
+	file: string,
+): { schema: Schema; file: string } {
+	const [target, pointer = ""] = ref.split("#");
+	const targetFile = target || file;
+	let schema: unknown = SCHEMAS[targetFile];
+	for (const segment of pointer.split("/").filter(Boolean)) {
+		schema = (schema as Record<string, unknown> | undefined)?.[segment];
+	}
+	if (!schema) {
+		throw new Error(`Unresolved schema reference '${ref}' in ${file}`);
+	}
+	return { schema: schema as Schema, file: targetFile };
+}
+
+/** JSON Schema type name of a parsed YAML value */
+function typeOf(value: unknown): string {
+	if (value === null || value === undefined) {
+		return "null";
+	}
+	if (Array.isArray(value)) {
+		return "array";
+	}
+	return typeof value;
+}
+
+/** Closest known key within a small edit distance, for typo suggestions */
+function suggestKey(key: string, known: string[]): string | undefined {
+	const distance = (a: string, b: string): number => {
+		let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+		for (let i = 1; i <= a.length; i++) {
+			const current = [i];
+			for (let j = 1; j <= b.length; j++) {
+				current[j] = Math.min(
+					previous[j] + 1,
+					current[j - 1] + 1,
+					previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+				);
+			}
+			previous = current;
+		}
+		return previous[b.length];
+	};
+
+	let best: { key: string; distance: number } | undefined;
+	for (const candidate of known) {
+		const d = distance(key, candidate);
+		if (d <= 2 && (!best || d < best.distance)) {
+			best = { key: candidate, distance: d };
+		}
+	}
+	return best?.key;
+}
+
+/** Describes the accepted forms of an `anyOf` for error messages */
+function describeAlternatives(alternatives: Schema[], file: string): string {
+	const forms = alternatives.map((alternative) => {
+		const schema = alternative.$ref
+			? resolveRef(alternative.$ref, file).schema
+			: alternative;
+		if (schema.type === "object" && schema.required?.length) {
+			return `an object with '${schema.required.join("', '")}'`;
+		}
+		const type = schema.type ?? "value";
+		return `${/^[aeiou]/.test(type) ? "an" : "a"} ${type}`;
+	});
+	return `expected ${forms.join(" or ")}`;
+}
+
+/** Validates a value against a schema, collecting every issue */
+function validateValue(
+	value: unknown,
+	schema: Schema,
+	file: string,
+	path: Path,
+	issues: RawIssue[],
+): void {
+	if (schema.$ref) {
+		const resolved = resolveRef(schema.$ref, file);
+		validateValue(value, resolved.schema, resolved.file, path, issues);
+		return;
+	}
+
+	if (schema.anyOf) {
+		const attempts = schema.anyOf.map((alternative) => {
+			const alternativeIssues: RawIssue[] = [];
+			validateValue(value, alternative, file, path, alternativeIssues);
+			return { alternative, issues: alternativeIssues };
+		});
+		if (attempts.some((a) => a.issues.length === 0)) {
+			return;
+		}
+		// Report the issues of the one alternative the value was clearly aimed at
+		const keys = typeOf(value) === "object" ? Object.keys(value as object) : [];
+		const intended = attempts.filter(({ alternative }) => {
+			const resolved = alternative.$ref
+				? resolveRef(alternative.$ref, file).schema
+				: alternative;
+			return (
+				resolved.type === typeOf(value) &&
+				(resolved.required ?? []).every((key) => keys.includes(key))
+			);
+		});
+		if (intended.length === 1) {
+			issues.push(...intended[0].issues);
+		} else {
+			issues.push({
+				path,
+				message: describeAlternatives(schema.anyOf, file),
+			});
+		}
+		return;
+	}
+
+	const actual = typeOf(value);
+	const typeMatches =
+		schema.type === "integer"
+			? Number.isInteger(value)
+			: schema.type === actual;
+	if (schema.type && !typeMatches) {
+		issues.push({ path, message: `expected ${schema.type}, got ${actual}` });
+		return;
+	}
+
+	if (schema.enum && !schema.enum.includes(value)) {
+		issues.push({
+			path,
+			message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+		});
+		return;
+	}
+
+	if (typeof value === "string") {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			issues.push({ path, message: "must not be empty" });
+		}
+	} else if (typeof value === "number") {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			issues.push({ path, message: `must be at least ${schema.minimum}` });
+		}
+		if (
+			schema.exclusiveMinimum !== undefined &&
+			value <= schema.exclusiveMinimum
+		) {
+			issues.push({
+				path,
+				message: `must be greater than ${schema.exclusiveMinimum}`,
+			});
+		}
+	} else if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			issues.push({
+				path,
+				message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}`,
+			});
+		}
+		if (schema.items) {
+			const items = schema.items;
+			value.forEach((item, i) => {
+				validateValue(item, items, file, [...path, i], issues);
+			});
+		}
+	} else if (actual === "object") {
+		const object = value as Record<string, unknown>;
+		const properties = schema.properties ?? {};
+		for (const key of schema.required ?? []) {
+			if (!(key in object)) {
+				issues.push({ path, message: `missing '${key}'` });
+			}
+		}
+		for (const [key, child] of Object.entries(object)) {
+			const property = properties[key];
+			if (property) {
+				validateValue(child, property, file, [...path, key], issues);
+			} else if (schema.additionalProperties === false) {
+				const suggestion = suggestKey(key, Object.keys(properties));
+				issues.push({
+					path: [...path, key],
+					message: `unknown key '${key}'${suggestion ? ` (did you mean '${suggestion}'?)` : ""}`,
+					atKey: true,
+				});
+			} else if (typeof schema.additionalProperties === "object") {
+				validateValue(
+					child,
+					schema.additionalProperties,
+					file,
+					[...path, key],
+					issues,
+				);
+			}
+		}
+	}
+}
+
+/** Formats a path like `checks[0].then.ensure_commands` */
+function formatPath(path: Path): string {
+	return path
+		.map((segment, i) =>
+			typeof segment === "number"
+				? `[${segment}]`
+				: i === 0
+					? segment
+					: `.${segment}`,
+		)
+		.join("");
+}
+
+/** Finds the source offset of the node at a path, or of the deepest node found */
+function locate(
+	root: Node | null | undefined,
+	path: Path,
+	atKey: boolean,
+): number | undefined {
+	let node: unknown = root;
+	let offset = (root as Node | null)?.range?.[0];
+	for (const [i, segment] of path.entries()) {
+		const last = i === path.length - 1;
+		if (isMap(node)) {
+			const pair = node.items.find(
+				(p) => (isScalar(p.key) ? p.key.value : p.key) === segment,
+			);
+			if (!pair) {
+				break;
+			}
+			node = last && atKey ? pair.key : pair.value;
+		} else if (isSeq(node) && typeof segment === "number") {
+			node = node.items[segment];
+		} else {
+			break;
+		}
+		offset = (node as Node | null)?.range?.[0] ?? offset;
+	}
+	return offset;
+}
+
+/**
+ * Parses a YAML config or preset file and validates it against its schema.
+ * Syntax errors are reported as issues; the value is only returned when the
+ * file parses. An empty file is validated as an empty mapping.
+ */
+export function parseAndValidate(
+	content: string,
+	kind: SchemaKind,
+): { value: unknown; issues: ValidationIssue[] } {
+	const lineCounter = new LineCounter();
+	const doc = parseDocument(content, { lineCounter, prettyErrors: false });
+
+	const located = (
+		issue: { path: string; message: string },
+		offset: number | undefined,
+	): ValidationIssue => {
+		if (offset === undefined) {
+			return issue;
+		}
+		const { line, col } = lineCounter.linePos(offset);
+		return { ...issue, line, column: col };
+	};
+
+	if (doc.errors.length > 0) {
+		return {
+			value: null,
+			issues: doc.errors.map((e) =>
+				located({ path: "", message: e.message }, e.pos[0]),
+			),
+		};
+	}
+
+	const value = doc.toJS() ?? {};
+	const file = SCHEMA_FILES[kind];
+	const raw: RawIssue[] = [];
+	validateValue(value, SCHEMAS[file], file, [], raw);
+
+	const contents = doc.contents as Node | null;
+	return {
+		value,
+		issues: raw.map((issue) =>
+			located(
+				{
+					// Unknown keys are reported on the object that contains them
+					path: formatPath(issue.atKey ? issue.path.slice(0, -1) : issue.path),
+					message: issue.message,
+				},
+				locate(contents, issue.path, issue.atKey ?? false),
+			),
+		),
+	};
+}
+
+/**
+ * Formats an issue as `file:line:column: path: message`
+ */
+export function formatIssue(file: string, issue: ValidationIssue): string {
+	const location =
+		issue.line !== undefined ? `${file}:${issue.line}:${issue.column}` : file;
+	return issue.path
+		? `${location}: ${issue.path}: ${issue.message}`
+		: `${location}: ${issue.message}`;
+}
@@ -0,0 +1,90 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+
+/**
+ * How a file changed in the working copy, relative to the checked-out revision
+ */
+export type ChangeKind =
+	| "added"
+	| "modified"
+	| "deleted"
+	| "renamed"
+	| "copied"
+	| "untracked"
+	| "unmerged"
+	| "submodule";
+
+/**
+ * A changed file as reported by the version control system
+ */
+export interface FileChange {
+	/** Path relative to the repository root */
+	path: string;
+	kind: ChangeKind;
+	/** Path the file was renamed or copied from, relative to the repository root */
+	originalPath?: string;
+}
+
+/**
+ * Changes in a working copy
+ */
+export interface WorkingCopyChanges {
+	/** Absolute path of the repository root */
+	root: string;
+	changes: FileChange[];
+}
+
+/**
+ * Names of the supported version control systems
+ */
+export type VcsName = "git" | "jj" | "hg";
+
+/**
+ * Access to a version control system.
+ * Methods taking `root` expect the root returned by `getRoot`.
+ */
+export interface VcsBackend {
+	name: VcsName;
+	/** Root of the repository containing `dir`, or null if `dir` is not in one */
+	getRoot($: PluginInput["$"], dir: string): Promise<string | null>;
+	/** Uncommitted changes in the working copy */
+	getChanges($: PluginInput["$"], root: string): Promise<FileChange[]>;
+	/** Current branch (or bookmark), or null if there is none */
+	getBranch($: PluginInput["$"], root: string): Promise<string | null>;
+	/** Revision the working copy is based on, or null before the first commit */
+	getRevision($: PluginInput["$"], root: string): Promise<string | null>;
+	/** Files changed by the commits between `revision` and the current revision */
+	getChangesSince(
+		$: PluginInput["$"],
+		root: string,
+		revision: string,
+	): Promise<FileChange[]>;
+}
+
+/**
+ * Lists the paths touched by changes, including the original paths of renames
+ * (the file no longer exists there). Each path is paired with its change kind.
+ */
+export function changedPaths(changes: FileChange[]): [string, ChangeKind][] {
+	return changes.flatMap((change): [string, ChangeKind][] =>
+		change.kind === "renamed" && change.originalPath
+			? [
+					[change.path, change.kind],
+					[change.originalPath, change.kind],
+				]
+			: [[change.path, change.kind]],
+	);
+}
+
+/**
+ * Runs a command and returns its trimmed output, or null if it fails
+ * (including when the program is not installed)
+ */
+export async function outputOf(
+	command: ReturnType<PluginInput["$"]>,
+): Promise<string | null> {
+	try {
+		return (await command.quiet().text()).trim();
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,116 @@
+import { join } from "node:path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { hashFile } from "../attribution.js";
+import {
+	changedPaths,
+	type FileChange,
+	type VcsName,
+	type WorkingCopyChanges,
+} from "./backend.js";
+import type { DetectedVcs } from "./detect.js";
+
+/**
+ * Working copy state when a session started
+ */
+export interface Baseline {
+	/** Backend that recorded the baseline */
+	vcs: VcsName;
+	/** Repository root the paths are relative to */
+	root: string;
+	/** Revision checked out, or null before the first commit */
+	revision: string | null;
+	/** Content hash of each file that was already dirty, by path relative to the repository root */
+	dirty: Map<string, string>;
+}
+
+/**
+ * Records the working copy state of a repository
+ */
+export async function takeBaseline(
+	$: PluginInput["$"],
+	{ backend, root }: DetectedVcs,
+): Promise<Baseline> {
+	return {
+		vcs: backend.name,
+		root,
+		revision: await backend.getRevision($, root),
+		dirty: hashPaths(root, await backend.getChanges($, root)),
+	};
+}
+
+/** Hashes the current content of every path touched by changes */
+function hashPaths(root: string, changes: FileChange[]): Map<string, string> {
+	return new Map(
+		changedPaths(changes).map(([path]) => [path, hashFile(join(root, path))]),
+	);
+}
+
+/**
+ * Narrows changes to those made since the baseline.
+ * A dirty file counts if it was clean at the baseline or its content changed since;
+ * a file that was dirty at the baseline and is clean now counts as modified (or deleted).
+ * Files changed by commits since the baseline count too.
+ *
+ * @param current - Content hash of each path touched by `changes`, plus the baseline's dirty paths
+ * @param committed - Files changed by commits between the baseline revision and the current one
+ */
+export function scopeToBaseline(
+	changes: FileChange[],
+	committed: FileChange[],
+	baseline: Baseline,
+	current: Map<string, string>,
+): FileChange[] {
+	const changedSince = (path: string) =>
+		baseline.dirty.get(path) !== current.get(path);
+	const scoped = changes.filter(
+		(change) =>
+			changedSince(change.path) ||
+			(change.originalPath !== undefined && changedSince(change.originalPath)),
+	);
+
+	const seen = new Set(changedPaths(changes).map(([path]) => path));
+	for (const change of committed) {
+		if (!seen.has(change.path)) {
+			scoped.push(change);
+			seen.add(change.path);
+		}
+	}
+	for (const [path, hash] of baseline.dirty) {
+		if (!seen.has(path) && current.get(path) !== hash) {
+			scoped.push({
+				path,
+				kind: current.get(path) === "deleted" ? "deleted" : "modified",
+			});
+		}
+	}
+	return scoped;
+}
+
+/**
+ * Lists the changes made in a repository since the baseline,
+ * including files changed by commits made since
+ */
+export async function getSessionChanges(
+	$: PluginInput["$"],
+	{ backend, root }: DetectedVcs,
+	baseline: Baseline,
+): Promise<WorkingCopyChanges> {
+	const changes = await backend.getChanges($, root);
+	const revision = await backend.getRevision($, root);
+	const committed =
+		baseline.revision && revision && revision !== baseline.revision
+			? await backend
+					.getChangesSince($, root, baseline.revision)
+					.catch(() => [])
+			: [];
+	const current = hashPaths(root, changes);
+	for (const path of baseline.dirty.keys()) {
+		if (!current.has(path)) {
+			current.set(path, hashFile(join(root, path)));
+		}
+	}
+	return {
+		root,
+		changes: scopeToBaseline(changes, committed, baseline, current),
+	};
+}
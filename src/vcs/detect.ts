@@ -0,0 +1,50 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import type { VcsBackend, VcsName } from "./backend.js";
+import { gitBackend } from "./git.js";
+import { hgBackend } from "./hg.js";
+import { jjBackend } from "./jj.js";
+
+/**
+ * Which backend to use: one by name, `auto` to detect it, or `none` to
+ * derive changed files from the transcript only
+ */
+export type VcsSetting = VcsName | "auto" | "none";
+
+/**
+ * Backends tried by detection, in order.
+ * jj comes first because jj repositories are often colocated with git.
+ */
+const BACKENDS: VcsBackend[] = [jjBackend, gitBackend, hgBackend];
+
+/**
+ * A backend and the root of the repository it found
+ */
+export interface DetectedVcs {
+	backend: VcsBackend;
+	root: string;
+}
+
+/**
+ * Finds the backend for the repository containing `dir`.
+ * Returns null for `none`, or if no backend (or not the configured one) recognizes `dir`.
+ */
+export async function detectVcs(
+	$: PluginInput["$"],
+	dir: string,
+	setting: VcsSetting = "auto",
+): Promise<DetectedVcs | null> {
+	if (setting === "none") {
+		return null;
+	}
+	const candidates =
+		setting === "auto"
+			? BACKENDS
+			: BACKENDS.filter((backend) => backend.name === setting);
+	for (const backend of candidates) {
+		const root = await backend.getRoot($, dir);
+		if (root) {
+			return { backend, root };
+		}
+	}
+	return null;
+}
@@ -0,0 +1,151 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import {
+	type ChangeKind,
+	type FileChange,
+	outputOf,
+	type VcsBackend,
+} from "./backend.js";
+
+/** Splits a record into its first `count` space-separated fields and the path after them */
+function splitRecord(
+	record: string,
+	count: number,
+): { fields: string[]; path: string } {
+	const fields = record.split(" ", count);
+	return { fields, path: record.slice(fields.join(" ").length + 1) };
+}
+
+/** Classifies an ordinary or renamed entry by its XY status and submodule state */
+function changeKind(xy: string, submodule: string): ChangeKind {
+	if (submodule.startsWith("S")) {
+		return "submodule";
+	}
+	if (xy.includes("D")) {
+		return "deleted";
+	}
+	if (xy.includes("R")) {
+		return "renamed";
+	}
+	if (xy.includes("C")) {
+		return "copied";
+	}
+	if (xy.includes("A")) {
+		return "added";
+	}
+	return "modified";
+}
+
+/**
+ * Parses `git status --porcelain=v2 -z` output.
+ * Paths are taken verbatim, so names with spaces, quotes or non-ASCII
+ * characters need no unquoting. Ignored and header entries are skipped.
+ */
+export function parsePorcelainV2(output: string): FileChange[] {
+	const records = output.split("\0");
+	const changes: FileChange[] = [];
+	for (let i = 0; i < records.length; i++) {
+		const record = records[i];
+		switch (record[0]) {
+			case "1": {
+				// 1 XY sub mH mI mW hH hI path
+				const { fields, path } = splitRecord(record, 8);
+				changes.push({ path, kind: changeKind(fields[1], fields[2]) });
+				break;
+			}
+			case "2": {
+				// 2 XY sub mH mI mW hH hI Xscore path, then the original path as its own record
+				const { fields, path } = splitRecord(record, 9);
+				i++;
+				changes.push({
+					path,
+					kind: changeKind(fields[1], fields[2]),
+					originalPath: records[i],
+				});
+				break;
+			}
+			case "u": {
+				// u XY sub m1 m2 m3 mW h1 h2 h3 path
+				const { path } = splitRecord(record, 10);
+				changes.push({ path, kind: "unmerged" });
+				break;
+			}
+			case "?":
+				changes.push({ path: record.slice(2), kind: "untracked" });
+				break;
+		}
+	}
+	return changes;
+}
+
+/**
+ * Parses `git diff --name-status -z` output.
+ * Type changes count as modifications.
+ */
+export function parseNameStatusZ(output: string): FileChange[] {
+	const records = output.split("\0");
+	const changes: FileChange[] = [];
+	for (let i = 0; i + 1 < records.length; i += 2) {
+		const status = records[i];
+		const path = records[i + 1];
+		switch (status[0]) {
+			case "R":
+			case "C":
+				// The original path comes first, then the new one
+				changes.push({
+					path: records[i + 2],
+					kind: status[0] === "R" ? "renamed" : "copied",
+					originalPath: path,
+				});
+				i++;
+				break;
+			case "A":
+				changes.push({ path, kind: "added" });
+				break;
+			case "D":
+				changes.push({ path, kind: "deleted" });
+				break;
+			case "U":
+				changes.push({ path, kind: "unmerged" });
+				break;
+			default:
+				changes.push({ path, kind: "modified" });
+		}
+	}
+	return changes;
+}
+
+/**
+ * Git backend. Status runs in the repository root, so paths are relative to it.
+ */
+export const gitBackend: VcsBackend = {
+	name: "git",
+
+	async getRoot($: PluginInput["$"], dir: string) {
+		return outputOf($`git rev-parse --show-toplevel`.cwd(dir));
+	},
+
+	async getChanges($: PluginInput["$"], root: string) {
+		const status = await $`git status --porcelain=v2 -z -uall`
+			.cwd(root)
+			.quiet()
+			.text();
+		return parsePorcelainV2(status);
+	},
+
+	async getBranch($: PluginInput["$"], root: string) {
+		const branch = await outputOf($`git rev-parse --abbrev-ref HEAD`.cwd(root));
+		return branch === "HEAD" ? null : branch;
+	},
+
+	async getRevision($: PluginInput["$"], root: string) {
+		return outputOf($`git rev-parse HEAD`.cwd(root));
+	},
+
+	async getChangesSince($: PluginInput["$"], root: string, revision: string) {
+		const output = await $`git diff --name-status -z -M ${revision} HEAD`
+			.cwd(root)
+			.quiet()
+			.text();
+		return parseNameStatusZ(output);
+	},
+};
@@ -0,0 +1,70 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import {
+	type ChangeKind,
+	type FileChange,
+	outputOf,
+	type VcsBackend,
+} from "./backend.js";
+
+const STATUS_KINDS: Record<string, ChangeKind> = {
+	M: "modified",
+	A: "added",
+	R: "deleted",
+	"!": "deleted",
+	"?": "untracked",
+};
+
+/** Node ID of the null revision, the parent of a repository without commits */
+const NULL_NODE = /^0+$/;
+
+/**
+ * Parses `hg status -0` output: `<status> <path>` entries separated by NUL.
+ * Clean and ignored entries are skipped.
+ */
+export function parseHgStatus(output: string): FileChange[] {
+	const changes: FileChange[] = [];
+	for (const entry of output.split("\0")) {
+		const kind = STATUS_KINDS[entry[0]];
+		if (kind && entry[1] === " ") {
+			changes.push({ path: entry.slice(2), kind });
+		}
+	}
+	return changes;
+}
+
+/**
+ * Mercurial backend. Status runs in the repository root, so paths are relative to it.
+ */
+export const hgBackend: VcsBackend = {
+	name: "hg",
+
+	async getRoot($: PluginInput["$"], dir: string) {
+		return outputOf($`hg root`.cwd(dir));
+	},
+
+	async getChanges($: PluginInput["$"], root: string) {
+		const output = await $`hg status -0`.cwd(root).quiet().text();
+		return parseHgStatus(output);
+	},
+
+	async getBranch($: PluginInput["$"], root: string) {
+		// The active bookmark if there is one, else the named branch
+		const output = await outputOf(
+			$`hg log -r . -T ${"{activebookmark}\\n{branch}"}`.cwd(root),
+		);
+		return output?.split("\n").find(Boolean) ?? null;
+	},
+
+	async getRevision($: PluginInput["$"], root: string) {
+		const node = await outputOf($`hg log -r . -T ${"{node}"}`.cwd(root));
+		return node && !NULL_NODE.test(node) ? node : null;
+	},
+
+	async getChangesSince($: PluginInput["$"], root: string, revision: string) {
+		const output = await $`hg status -0 --rev ${revision} --rev .`
+			.cwd(root)
+			.quiet()
+			.text();
+		return parseHgStatus(output);
+	},
+};
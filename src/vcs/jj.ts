@@ -0,0 +1,100 @@
+import { posix } from "node:path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import {
+	type ChangeKind,
+	type FileChange,
+	outputOf,
+	type VcsBackend,
+} from "./backend.js";
+
+const SUMMARY_KINDS: Record<string, ChangeKind> = {
+	A: "added",
+	M: "modified",
+	D: "deleted",
+	R: "renamed",
+	C: "copied",
+};
+
+/**
+ * Expands a rename in jj's compact form, e.g. `src/{old => new}.ts`,
+ * into the original and new paths
+ */
+function expandRename(path: string): { from: string; to: string } {
+	const match = /^(.*)\{(.*) => (.*)\}(.*)$/.exec(path);
+	if (!match) {
+		return { from: path, to: path };
+	}
+	const [, prefix, from, to, suffix] = match;
+	return {
+		from: posix.normalize(`${prefix}${from}${suffix}`),
+		to: posix.normalize(`${prefix}${to}${suffix}`),
+	};
+}
+
+/**
+ * Parses `jj diff --summary` output: one `<status> <path>` line per file
+ */
+export function parseJjSummary(output: string): FileChange[] {
+	const changes: FileChange[] = [];
+	for (const line of output.split("\n")) {
+		const kind = SUMMARY_KINDS[line[0]];
+		if (!kind || line[1] !== " ") {
+			continue;
+		}
+		const path = line.slice(2);
+		if (kind === "renamed" || kind === "copied") {
+			const { from, to } = expandRename(path);
+			changes.push({ path: to, kind, originalPath: from });
+		} else {
+			changes.push({ path, kind });
+		}
+	}
+	return changes;
+}
+
+/**
+ * Jujutsu backend. The working-copy commit `@` holds the uncommitted changes,
+ * so the revision a session is based on is its parent `@-`.
+ */
+export const jjBackend: VcsBackend = {
+	name: "jj",
+
+	async getRoot($: PluginInput["$"], dir: string) {
+		return outputOf($`jj root`.cwd(dir));
+	},
+
+	async getChanges($: PluginInput["$"], root: string) {
+		const output = await $`jj diff --summary --color never`
+			.cwd(root)
+			.quiet()
+			.text();
+		return parseJjSummary(output);
+	},
+
+	async getBranch($: PluginInput["$"], root: string) {
+		const bookmarks = await outputOf(
+			$`jj log --no-graph --color never -r ${"latest(::@ & bookmarks())"} -T ${'local_bookmarks.map(|b| b.name()).join(" ")'}`.cwd(
+				root,
+			),
+		);
+		return bookmarks?.split(" ")[0] || null;
+	},
+
+	async getRevision($: PluginInput["$"], root: string) {
+		const output = await outputOf(
+			$`jj log --no-graph --color never -r ${"@-"} -T ${'commit_id ++ "\\n"'}`.cwd(
+				root,
+			),
+		);
+		return output?.split("\n")[0] || null;
+	},
+
+	async getChangesSince($: PluginInput["$"], root: string, revision: string) {
+		const output =
+			await $`jj diff --summary --color never --from ${revision} --to ${"@-"}`
+				.cwd(root)
+				.quiet()
+				.text();
+		return parseJjSummary(output);
+	},
+};